@@ -57,6 +57,7 @@ export async function startCLI() {
       console.log(chalk.gray("Type 'stats' to see system statistics\n"));
 
       let sessionActive = true;
+      let conversationId: string | undefined; // One conversation per session
       while (sessionActive) {
         const { message } = await inquirer.prompt([
           {
@@ -102,8 +103,10 @@ export async function startCLI() {
         try {
           const result = await virusProtocol.handleInteraction(
             "cli-user",
-            message
+            message,
+            conversationId
           );
+          conversationId = result.conversationId;
           spinner.stop();
           console.log(chalk.blue("\nVirus Protocol:"), result.response);
 
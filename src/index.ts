@@ -1,5 +1,6 @@
 import express from "express";
 import mongoose from "mongoose";
+import { z } from "zod";
 import { Redis } from "ioredis";
 import { setupSecurity } from "./middleware/security.js";
 import {
@@ -7,14 +8,32 @@ import {
   createRateLimiter,
 } from "./middleware/rateLimiter.js";
 import { errorHandler } from "./middleware/errorHandler.js";
-import { createApiRouter } from "./routes/api.js";
-import { VirusProtocolCore } from "./services/virusProtocol.js";
+import { createApiRouter, interactSchema } from "./routes/api.js";
+import { createAuthRouter } from "./routes/auth.js";
+import { createMemoryRouter } from "./routes/memory.js";
+import { createPrivacyRouter } from "./routes/privacy.js";
+import { createEvolutionRouter } from "./routes/evolution.js";
+import { createConversationRouter } from "./routes/conversations.js";
+import {
+  InteractionResult,
+  VirusProtocolCore,
+} from "./services/virusProtocol.js";
 import "./models/interaction.js";
 import session from "express-session";
 import { RedisStore } from "connect-redis";
 import WebSocket from "ws";
 import http from "http";
 import { LoadBalancer } from "./middleware/loadBalancer.js";
+import { InteractionChannels } from "./services/interactionChannels.js";
+import { EvolutionChannels } from "./services/evolutionChannels.js";
+import { EVOLUTION_PROGRESS_CHANNEL } from "./services/evolutionWorker.js";
+import { authenticateToken, configureAuth } from "./middleware/auth.js";
+import { RoleStore, hasPermission } from "./services/roles.js";
+import { tierOrDefault } from "./services/tiers.js";
+import { createRoleRouter } from "./routes/roles.js";
+import { createApiKeyRouter } from "./routes/apiKeys.js";
+import { createTierRouter } from "./routes/tiers.js";
+import { createUsageRouter } from "./routes/usage.js";
 
 // Initialize Express app
 const app = express();
@@ -34,6 +53,20 @@ const redis = new Redis({
 const virusProtocol = new VirusProtocolCore(redis);
 const rateLimiter = createRateLimiter(redis);
 const loadBalancer = new LoadBalancer(redis);
+const interactionChannels = new InteractionChannels(virusProtocol);
+const evolutionChannels = new EvolutionChannels(virusProtocol);
+configureAuth(redis);
+
+// Evolution jobs run in the worker process; relay their progress locally
+const progressSubscriber = redis.duplicate();
+progressSubscriber.subscribe(EVOLUTION_PROGRESS_CHANNEL);
+progressSubscriber.on("message", (channel, message) => {
+  try {
+    virusProtocol.emit("evolutionProgress", JSON.parse(message));
+  } catch (error) {
+    console.error("Invalid evolution progress message:", error);
+  }
+});
 
 // Setup security middleware
 setupSecurity(app);
@@ -102,6 +135,153 @@ const broadcastWithRateLimit = (data: any) => {
   });
 };
 
+// Everyone sees that an interaction happened, never what it contained
+const broadcastInteraction = (interaction: InteractionResult) =>
+  broadcastWithRateLimit({
+    type: "interaction",
+    id: interaction.id,
+    evolutionScore: interaction.evolutionScore,
+    timestamp: interaction.timestamp,
+  });
+
+// Client messages: { type: "interact", token, message } streams a new
+// interaction to this socket, { type: "subscribe", token, interactionId }
+// joins the channel of a running one, { type: "subscribeEvolution", token }
+// follows the evolution jobs of the authenticated user
+const socketMessageSchema = z.discriminatedUnion("type", [
+  interactSchema.extend({
+    type: z.literal("interact"),
+    token: z.string().default(""),
+  }),
+  z.object({
+    type: z.literal("subscribe"),
+    token: z.string().default(""),
+    interactionId: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal("subscribeEvolution"),
+    token: z.string().default(""),
+  }),
+  z.object({
+    type: z.literal("unsubscribe"),
+    interactionId: z.string().min(1),
+  }),
+  z.object({ type: z.literal("unsubscribeEvolution") }),
+]);
+
+const sendSocketError = (ws: WebSocket, error: string) => {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify({ type: "error", error }));
+  }
+};
+
+const handleSocketMessage = async (ws: WebSocket, raw: string) => {
+  const sendError = (error: string) => sendSocketError(ws, error);
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    sendError("Invalid message format");
+    return;
+  }
+
+  const parsed = socketMessageSchema.safeParse(json);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    sendError(
+      issue.code === "invalid_union_discriminator"
+        ? `Unknown message type '${(json as { type?: unknown })?.type}'`
+        : `Invalid message: ${issue.path.join(".")} ${issue.message}`
+    );
+    return;
+  }
+  const payload = parsed.data;
+
+  if (payload.type === "unsubscribe") {
+    interactionChannels.unsubscribe(ws, payload.interactionId);
+    return;
+  }
+
+  if (payload.type === "unsubscribeEvolution") {
+    evolutionChannels.removeSocket(ws);
+    return;
+  }
+
+  let user: { id: string; role: string; tier?: string };
+  try {
+    user = await authenticateToken(payload.token);
+  } catch {
+    sendError("Please authenticate");
+    return;
+  }
+
+  switch (payload.type) {
+    case "interact":
+      if (!hasPermission(user.role, "interact")) {
+        sendError("Missing permission: interact");
+        break;
+      }
+
+      // Frames after the first reach the socket through its channel
+      let started = false;
+      try {
+        // The same interaction and tier budgets as the HTTP routes
+        const limited = await rateLimiter.consumeInteraction(
+          user.id,
+          user.tier
+        );
+        if (limited) {
+          sendError(`Too many requests (${limited} limit)`);
+          break;
+        }
+
+        const quota = await virusProtocol.usage.quotaStatus(
+          user.id,
+          tierOrDefault(user.tier)
+        );
+        if (quota.exceeded) {
+          sendError("Daily usage quota exceeded");
+          break;
+        }
+
+        const { finalized } = await virusProtocol.streamInteraction(
+          user.id,
+          payload.message,
+          (frame) => {
+            if (frame.type === "start") {
+              started = true;
+              interactionChannels.subscribe(ws, frame.interactionId, user.id);
+              ws.send(JSON.stringify(frame));
+            }
+          },
+          payload.conversationId
+        );
+
+        finalized
+          .then(broadcastInteraction)
+          .catch((error) =>
+            console.error("Error finalizing streamed interaction:", error)
+          );
+      } catch (error: any) {
+        // Once started, the error frame has been sent on the channel
+        console.error("WebSocket interaction error:", error);
+        if (!started) sendError(error.message);
+      }
+      break;
+
+    case "subscribe":
+      if (!interactionChannels.subscribe(ws, payload.interactionId, user.id)) {
+        sendError("Interaction not found");
+      }
+      break;
+
+    case "subscribeEvolution":
+      evolutionChannels.subscribe(ws, user.id);
+      break;
+  }
+};
+
 // WebSocket connection handling
 wss.on("headers", (headers, req) => {
   headers.push("Access-Control-Allow-Origin: *");
@@ -121,6 +301,8 @@ wss.on("connection", async (ws, req) => {
 
   ws.on("close", () => {
     loadBalancer.emit("wsDisconnection");
+    interactionChannels.removeSocket(ws);
+    evolutionChannels.removeSocket(ws);
   });
 
   // Initialize rate limiting for this connection
@@ -129,8 +311,11 @@ wss.on("connection", async (ws, req) => {
   ws.on("message", (message) => {
     const connInfo = wsConnections.get(ip!);
     if (connInfo && connInfo.count < 60) {
-      console.log("Message received:", message);
       connInfo.count++;
+      handleSocketMessage(ws, message.toString()).catch((error) => {
+        console.error("WebSocket message error:", error);
+        sendSocketError(ws, "Internal server error");
+      });
     }
   });
 
@@ -151,7 +336,16 @@ setInterval(() => {
 }, 60000);
 
 // API routes
-app.use("/api", createApiRouter(virusProtocol, redis, broadcastWithRateLimit));
+app.use("/api", createAuthRouter(redis));
+app.use("/api", createRoleRouter(redis));
+app.use("/api", createApiKeyRouter());
+app.use("/api", createTierRouter(redis));
+app.use("/api", createUsageRouter(virusProtocol, redis));
+app.use("/api/memory", createMemoryRouter(virusProtocol));
+app.use("/api", createPrivacyRouter(virusProtocol, redis));
+app.use("/api", createEvolutionRouter(virusProtocol));
+app.use("/api", createConversationRouter(virusProtocol));
+app.use("/api", createApiRouter(virusProtocol, redis, broadcastInteraction));
 
 // Error handling
 app.use(errorHandler);
@@ -170,9 +364,10 @@ const shutdown = async () => {
     console.log("HTTP server closed");
   });
 
-  // Close Redis connection
+  // Close Redis connections
+  await progressSubscriber.quit();
   await redis.quit();
-  console.log("Redis connection closed");
+  console.log("Redis connections closed");
 
   // Close MongoDB connection
   await mongoose.connection.close();
@@ -194,6 +389,11 @@ const start = async () => {
     });
     console.log("Connected to MongoDB");
 
+    const admins = await new RoleStore(redis).bootstrap();
+    if (admins > 0) {
+      console.log(`Granted admin to ${admins} configured wallet(s)`);
+    }
+
     const PORT = process.env.PORT || 3001;
     server.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
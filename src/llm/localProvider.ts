@@ -0,0 +1,64 @@
+// src/llm/localProvider.ts
+
+import { zodResponseFormat } from "openai/helpers/zod";
+import { ZodType } from "zod";
+import { OpenAIProvider, toOpenAIMessages, toUsage } from "./openaiProvider.js";
+import { LlmChatOptions, LlmMessage } from "./types.js";
+
+interface LocalProviderOptions {
+  model?: string;
+  embeddingModel?: string;
+  baseURL?: string;
+  apiKey?: string;
+  functionCalling?: boolean;
+}
+
+// OpenAI-compatible local endpoint (llama.cpp server, Ollama, vLLM...)
+export class LocalProvider extends OpenAIProvider {
+  readonly name: string = "local";
+
+  constructor(options: LocalProviderOptions = {}) {
+    super({
+      model: options.model || "llama3.1",
+      embeddingModel: options.embeddingModel || "nomic-embed-text",
+      baseURL: options.baseURL || "http://localhost:11434/v1",
+      // Local servers ignore the key but the client requires one
+      apiKey: options.apiKey || "local",
+      // Tool support depends on the served model, so it is opt-in
+      functionCalling: options.functionCalling ?? false,
+    });
+  }
+
+  // Most local servers only support plain JSON mode, so the schema is
+  // described in the prompt and validated on our side
+  async structured<T>(
+    messages: LlmMessage[],
+    schema: ZodType<T>,
+    schemaName: string,
+    options: LlmChatOptions = {}
+  ): Promise<T> {
+    const jsonSchema = zodResponseFormat(schema, schemaName).json_schema.schema;
+
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        ...toOpenAIMessages(messages),
+        {
+          role: "system",
+          content: `Respond only with a JSON object matching this schema:\n${JSON.stringify(
+            jsonSchema
+          )}`,
+        },
+      ],
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      response_format: { type: "json_object" },
+    });
+
+    const usage = toUsage(completion.usage);
+    if (usage) options.onUsage?.(usage, completion.model);
+
+    const content = completion.choices[0].message.content || "{}";
+    return schema.parse(JSON.parse(content));
+  }
+}
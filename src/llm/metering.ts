@@ -0,0 +1,214 @@
+// src/llm/metering.ts
+
+import { AsyncLocalStorage } from "async_hooks";
+import { ZodType } from "zod";
+import { costOf, loadPrices, ModelPrice } from "./pricing.js";
+import {
+  LlmChatOptions,
+  LlmChatResult,
+  LlmMessage,
+  LlmProvider,
+  LlmStreamChunk,
+  LlmSubsystem,
+  LlmUsage,
+} from "./types.js";
+
+// Running totals of one interaction, shared by every call made for it
+export interface UsageTotals extends LlmUsage {
+  cost: number;
+  models: Partial<Record<LlmSubsystem, string>>;
+}
+
+// Who LLM calls are made for. Calls outside any scope (evolution batches,
+// context rebuilds) are the system's own.
+export interface UsageScope {
+  userId?: string;
+  interactionId?: string;
+  totals?: UsageTotals;
+}
+
+export interface UsageEvent extends LlmUsage {
+  userId?: string;
+  interactionId?: string;
+  subsystem: LlmSubsystem;
+  provider: string;
+  model: string;
+  cost: number; // USD
+  estimated: boolean; // Provider reported no usage; counted from text length
+  timestamp: Date;
+}
+
+export interface UsageRecorder {
+  record(event: UsageEvent): Promise<void>;
+}
+
+const scopes = new AsyncLocalStorage<UsageScope>();
+
+// Runs fn with calls attributed to scope, on top of the enclosing one
+export const withUsageScope = <T>(scope: UsageScope, fn: () => T): T =>
+  scopes.run({ ...scopes.getStore(), ...scope }, fn);
+
+export const currentUsageScope = (): UsageScope => scopes.getStore() || {};
+
+export const newUsageTotals = (): UsageTotals => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+  models: {},
+});
+
+// Rough count for providers that report no usage: ~4 characters a token
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / 4);
+
+const estimateUsage = (prompt: string, completion: string): LlmUsage => {
+  const promptTokens = estimateTokens(prompt);
+  const completionTokens = estimateTokens(completion);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+};
+
+const promptText = (messages: LlmMessage[]) =>
+  messages.map((m) => m.content).join("\n");
+
+// Wraps a provider so every call is reported with its subsystem, the
+// current usage scope, token counts and estimated cost
+export class MeteredProvider implements LlmProvider {
+  private readonly inner: LlmProvider;
+  private readonly subsystem: LlmSubsystem;
+  private readonly recorder: UsageRecorder;
+  private readonly prices: Record<string, ModelPrice>;
+
+  constructor(
+    inner: LlmProvider,
+    subsystem: LlmSubsystem,
+    recorder: UsageRecorder,
+    prices: Record<string, ModelPrice> = loadPrices()
+  ) {
+    this.inner = inner;
+    this.subsystem = subsystem;
+    this.recorder = recorder;
+    this.prices = prices;
+  }
+
+  get name() {
+    return this.inner.name;
+  }
+
+  get model() {
+    return this.inner.model;
+  }
+
+  get embeddingModel() {
+    return this.inner.embeddingModel;
+  }
+
+  get supportsTools() {
+    return this.inner.supportsTools;
+  }
+
+  async chat(
+    messages: LlmMessage[],
+    options?: LlmChatOptions
+  ): Promise<LlmChatResult> {
+    const result = await this.inner.chat(messages, options);
+    this.report(
+      result.model,
+      result.usage || estimateUsage(promptText(messages), result.content),
+      !result.usage
+    );
+    return result;
+  }
+
+  async *stream(
+    messages: LlmMessage[],
+    options?: LlmChatOptions
+  ): AsyncIterable<LlmStreamChunk> {
+    let content = "";
+    let model = this.inner.model;
+    let usage: LlmUsage | undefined;
+
+    // Reported even when the consumer stops early
+    try {
+      for await (const chunk of this.inner.stream(messages, options)) {
+        content += chunk.content;
+        model = chunk.model || model;
+        usage = chunk.usage || usage;
+        yield chunk;
+      }
+    } finally {
+      this.report(
+        model,
+        usage || estimateUsage(promptText(messages), content),
+        !usage
+      );
+    }
+  }
+
+  async structured<T>(
+    messages: LlmMessage[],
+    schema: ZodType<T>,
+    schemaName: string,
+    options?: LlmChatOptions
+  ): Promise<T> {
+    const reported: { usage?: LlmUsage; model?: string } = {};
+    const result = await this.inner.structured(messages, schema, schemaName, {
+      ...options,
+      onUsage: (usage, model) => {
+        Object.assign(reported, { usage, model });
+        options?.onUsage?.(usage, model);
+      },
+    });
+    this.report(
+      reported.model || this.inner.model,
+      reported.usage ||
+        estimateUsage(promptText(messages), JSON.stringify(result)),
+      !reported.usage
+    );
+    return result;
+  }
+
+  async embed(input: string[]): Promise<number[][]> {
+    const vectors = await this.inner.embed(input);
+    if (input.length > 0) {
+      this.report(
+        this.inner.embeddingModel || this.inner.model,
+        estimateUsage(input.join("\n"), ""),
+        true
+      );
+    }
+    return vectors;
+  }
+
+  // Totals are updated at once; storing the event never holds up the call
+  private report(model: string, usage: LlmUsage, estimated: boolean) {
+    const scope = currentUsageScope();
+    const cost = costOf(model, usage, this.prices);
+
+    if (scope.totals) {
+      scope.totals.promptTokens += usage.promptTokens;
+      scope.totals.completionTokens += usage.completionTokens;
+      scope.totals.totalTokens += usage.totalTokens;
+      scope.totals.cost += cost;
+      scope.totals.models[this.subsystem] ||= model;
+    }
+
+    this.recorder
+      .record({
+        ...usage,
+        userId: scope.userId,
+        interactionId: scope.interactionId,
+        subsystem: this.subsystem,
+        provider: this.inner.name,
+        model,
+        cost,
+        estimated,
+        timestamp: new Date(),
+      })
+      .catch((error) => console.error("Error recording LLM usage:", error));
+  }
+}
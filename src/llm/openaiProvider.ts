@@ -0,0 +1,203 @@
+// src/llm/openaiProvider.ts
+
+import { OpenAI } from "openai";
+import { zodResponseFormat } from "openai/helpers/zod";
+import { ZodType } from "zod";
+import {
+  LlmChatOptions,
+  LlmChatResult,
+  LlmMessage,
+  LlmProvider,
+  LlmStreamChunk,
+  LlmToolCall,
+  LlmUsage,
+} from "./types.js";
+
+interface OpenAIProviderOptions {
+  model?: string;
+  embeddingModel?: string;
+  baseURL?: string;
+  apiKey?: string;
+  functionCalling?: boolean;
+}
+
+export const toOpenAIMessages = (
+  messages: LlmMessage[]
+): OpenAI.Chat.ChatCompletionMessageParam[] =>
+  messages.map((message) => {
+    if (message.role === "tool") {
+      return {
+        role: "tool",
+        content: message.content,
+        tool_call_id: message.toolCallId!,
+      };
+    }
+
+    if (message.role === "assistant" && message.toolCalls?.length) {
+      return {
+        role: "assistant",
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+
+const toOpenAITools = (options: LlmChatOptions) =>
+  options.tools?.length
+    ? options.tools.map((tool) => ({
+        type: "function" as const,
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      }))
+    : undefined;
+
+export const toUsage = (
+  usage?: OpenAI.CompletionUsage | null
+): LlmUsage | undefined =>
+  usage
+    ? {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      }
+    : undefined;
+
+export class OpenAIProvider implements LlmProvider {
+  readonly name: string = "openai";
+  readonly model: string;
+  readonly supportsTools: boolean;
+  readonly embeddingModel: string;
+  protected readonly client: OpenAI;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.model = options.model || "gpt-4o";
+    this.embeddingModel = options.embeddingModel || "text-embedding-3-small";
+    this.supportsTools = options.functionCalling ?? true;
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+    });
+  }
+
+  async chat(
+    messages: LlmMessage[],
+    options: LlmChatOptions = {}
+  ): Promise<LlmChatResult> {
+    const tools = this.supportsTools ? toOpenAITools(options) : undefined;
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: toOpenAIMessages(messages),
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      presence_penalty: options.presencePenalty,
+      frequency_penalty: options.frequencyPenalty,
+      tools,
+    });
+
+    const message = completion.choices[0].message;
+    return {
+      content: message.content || "",
+      model: completion.model,
+      usage: toUsage(completion.usage),
+      toolCalls: message.tool_calls?.map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+      })),
+    };
+  }
+
+  async *stream(
+    messages: LlmMessage[],
+    options: LlmChatOptions = {}
+  ): AsyncIterable<LlmStreamChunk> {
+    const tools = this.supportsTools ? toOpenAITools(options) : undefined;
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: toOpenAIMessages(messages),
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      presence_penalty: options.presencePenalty,
+      frequency_penalty: options.frequencyPenalty,
+      tools,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    // Tool calls arrive as fragments keyed by index
+    const toolCalls: LlmToolCall[] = [];
+    let usage: LlmUsage | undefined;
+    let model = this.model;
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      usage = toUsage(chunk.usage) || usage;
+
+      const delta = chunk.choices[0]?.delta;
+      delta?.tool_calls?.forEach((fragment) => {
+        const call = (toolCalls[fragment.index] ||= {
+          id: "",
+          name: "",
+          arguments: "",
+        });
+        call.id = fragment.id || call.id;
+        call.name += fragment.function?.name || "";
+        call.arguments += fragment.function?.arguments || "";
+      });
+
+      if (delta?.content) {
+        yield { content: delta.content, model };
+      }
+    }
+
+    yield {
+      content: "",
+      model,
+      usage,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+  }
+
+  async structured<T>(
+    messages: LlmMessage[],
+    schema: ZodType<T>,
+    schemaName: string,
+    options: LlmChatOptions = {}
+  ): Promise<T> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: toOpenAIMessages(messages),
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      response_format: zodResponseFormat(schema, schemaName),
+    });
+
+    const usage = toUsage(completion.usage);
+    if (usage) options.onUsage?.(usage, completion.model);
+
+    const content = completion.choices[0].message.content || "{}";
+    return schema.parse(JSON.parse(content));
+  }
+
+  async embed(input: string[]): Promise<number[][]> {
+    if (input.length === 0) return [];
+
+    const response = await this.client.embeddings.create({
+      model: this.embeddingModel,
+      input,
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
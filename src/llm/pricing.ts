@@ -0,0 +1,52 @@
+// src/llm/pricing.ts
+
+import { LlmUsage } from "./types.js";
+
+// USD per million tokens
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "text-embedding-3-small": { prompt: 0.02, completion: 0 },
+  "text-embedding-3-large": { prompt: 0.13, completion: 0 },
+  "text-embedding-ada-002": { prompt: 0.1, completion: 0 },
+};
+
+// LLM_PRICING adds or overrides prices as JSON, e.g.
+// {"gpt-4o": {"prompt": 2.5, "completion": 10}}
+export const loadPrices = (
+  env: NodeJS.ProcessEnv = process.env
+): Record<string, ModelPrice> => ({
+  ...DEFAULT_PRICES,
+  ...(env.LLM_PRICING ? JSON.parse(env.LLM_PRICING) : {}),
+});
+
+// Models are matched by the longest known prefix, so dated snapshots such
+// as gpt-4o-2024-08-06 use the gpt-4o price. Unknown models (local and
+// scripted ones) cost nothing.
+export const priceOf = (
+  model: string,
+  prices: Record<string, ModelPrice> = loadPrices()
+): ModelPrice => {
+  const match = Object.keys(prices)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : { prompt: 0, completion: 0 };
+};
+
+export const costOf = (
+  model: string,
+  usage: LlmUsage,
+  prices?: Record<string, ModelPrice>
+): number => {
+  const price = priceOf(model, prices);
+  return (
+    (usage.promptTokens * price.prompt +
+      usage.completionTokens * price.completion) /
+    1_000_000
+  );
+};
@@ -0,0 +1,159 @@
+// src/llm/registry.ts
+
+import { LocalProvider } from "./localProvider.js";
+import { MeteredProvider, UsageRecorder } from "./metering.js";
+import { OpenAIProvider } from "./openaiProvider.js";
+import { ScriptedProvider } from "./scriptedProvider.js";
+import {
+  LlmConfig,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmSubsystem,
+} from "./types.js";
+
+const SUBSYSTEMS: LlmSubsystem[] = [
+  "primary",
+  "toolSummary",
+  "evolutionScore",
+  "evolutionAnalysis",
+  "memoryImportance",
+  "contextSummary",
+  "embedding",
+];
+
+// e.g. memoryImportance -> MEMORY_IMPORTANCE
+const toEnvName = (subsystem: LlmSubsystem) =>
+  subsystem.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase();
+
+// Only the settings present under prefix
+const readProviderConfig = (
+  env: NodeJS.ProcessEnv,
+  prefix: string
+): Partial<LlmProviderConfig> => {
+  // Empty values in .env files count as unset
+  const read = (name: string) => env[`${prefix}${name}`] || undefined;
+  const functionCalling = read("FUNCTION_CALLING");
+
+  const config: Partial<LlmProviderConfig> = {
+    provider: read("PROVIDER") as LlmProviderConfig["provider"] | undefined,
+    model: read("MODEL"),
+    embeddingModel: read("EMBEDDING_MODEL"),
+    baseURL: read("BASE_URL"),
+    apiKey: read("API_KEY"),
+    scriptFile: read("SCRIPT_FILE"),
+    functionCalling:
+      functionCalling === undefined ? undefined : functionCalling === "true",
+  };
+
+  return Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  );
+};
+
+// LLM_PROVIDER / LLM_MODEL set the default, LLM_<SUBSYSTEM>_PROVIDER /
+// LLM_<SUBSYSTEM>_MODEL override it for a single subsystem. Overrides
+// inherit the rest of the default, so LLM_PROVIDER=local keeps every
+// subsystem on the local server. A subsystem moved to another provider
+// keeps none of the default's connection settings.
+export const loadLlmConfig = (
+  env: NodeJS.ProcessEnv = process.env
+): LlmConfig => {
+  const defaults: LlmProviderConfig = {
+    provider: "openai",
+    ...readProviderConfig(env, "LLM_"),
+  };
+  const subsystems: LlmConfig["subsystems"] = {};
+
+  for (const subsystem of SUBSYSTEMS) {
+    const override = readProviderConfig(env, `LLM_${toEnvName(subsystem)}_`);
+    if (Object.keys(override).length === 0) continue;
+
+    subsystems[subsystem] =
+      override.provider && override.provider !== defaults.provider
+        ? { provider: override.provider, ...override }
+        : { ...defaults, ...override };
+  }
+
+  return { default: defaults, subsystems };
+};
+
+export const createLlmProvider = (config: LlmProviderConfig): LlmProvider => {
+  switch (config.provider) {
+    case "openai":
+      return new OpenAIProvider(config);
+    case "local":
+      return new LocalProvider(config);
+    case "scripted":
+      return config.scriptFile
+        ? ScriptedProvider.fromFile(config.scriptFile)
+        : new ScriptedProvider();
+    default:
+      throw new Error(`Unknown LLM provider '${config.provider}'`);
+  }
+};
+
+export class LlmRegistry {
+  private config: LlmConfig;
+  private providers = new Map<LlmSubsystem, LlmProvider>();
+  private instances = new Map<string, LlmProvider>();
+  private metered = new Map<LlmSubsystem, LlmProvider>();
+  private recorder: UsageRecorder | null = null;
+
+  constructor(config: LlmConfig = loadLlmConfig()) {
+    this.config = config;
+  }
+
+  // Use the same provider for every subsystem (mainly for tests)
+  static withProvider(provider: LlmProvider): LlmRegistry {
+    const registry = new LlmRegistry({
+      default: { provider: "scripted" },
+      subsystems: {},
+    });
+    SUBSYSTEMS.forEach((subsystem) => registry.register(subsystem, provider));
+    return registry;
+  }
+
+  register(subsystem: LlmSubsystem, provider: LlmProvider) {
+    this.providers.set(subsystem, provider);
+    this.metered.delete(subsystem);
+  }
+
+  // Reports every call made through for() from now on
+  meter(recorder: UsageRecorder) {
+    this.recorder = recorder;
+    this.metered.clear();
+  }
+
+  for(subsystem: LlmSubsystem): LlmProvider {
+    if (!this.recorder) return this.resolve(subsystem);
+
+    let provider = this.metered.get(subsystem);
+    if (!provider) {
+      provider = new MeteredProvider(
+        this.resolve(subsystem),
+        subsystem,
+        this.recorder
+      );
+      this.metered.set(subsystem, provider);
+    }
+    return provider;
+  }
+
+  private resolve(subsystem: LlmSubsystem): LlmProvider {
+    const existing = this.providers.get(subsystem);
+    if (existing) return existing;
+
+    const config = this.config.subsystems[subsystem] || this.config.default;
+
+    // Subsystems with identical settings share one client
+    const key = JSON.stringify(config);
+    let provider = this.instances.get(key);
+    if (!provider) {
+      provider = createLlmProvider(config);
+      this.instances.set(key, provider);
+    }
+
+    this.providers.set(subsystem, provider);
+    return provider;
+  }
+}
@@ -0,0 +1,169 @@
+// src/llm/scriptedProvider.ts
+
+import fs from "fs";
+import { ZodType } from "zod";
+import {
+  LlmChatOptions,
+  LlmChatResult,
+  LlmMessage,
+  LlmProvider,
+  LlmStreamChunk,
+  LlmToolCall,
+} from "./types.js";
+
+export interface ScriptedRule {
+  match?: string | RegExp; // Tested against the joined message contents
+  response: string | ((messages: LlmMessage[]) => string);
+  toolCalls?: { name: string; arguments: string }[]; // Requested when tools are offered
+  times?: number; // Rule is dropped after this many uses
+}
+
+interface ScriptedProviderOptions {
+  rules?: ScriptedRule[];
+  fallback?: string;
+  embeddingDimensions?: number;
+}
+
+// Deterministic provider for offline runs and tests: answers come from an
+// ordered rule list, embeddings from hashed word counts
+export class ScriptedProvider implements LlmProvider {
+  readonly name = "scripted";
+  readonly model = "scripted";
+  readonly supportsTools = true;
+  readonly calls: LlmMessage[][] = [];
+  private rules: ScriptedRule[];
+  private fallback: string;
+  private embeddingDimensions: number;
+  private toolCallCount = 0;
+
+  constructor(options: ScriptedProviderOptions = {}) {
+    this.rules = options.rules || [];
+    this.fallback = options.fallback ?? "";
+    this.embeddingDimensions = options.embeddingDimensions || 64;
+  }
+
+  static fromFile(path: string): ScriptedProvider {
+    const raw = JSON.parse(fs.readFileSync(path, "utf8"));
+    const rules = Array.isArray(raw) ? raw : raw.rules || [];
+    return new ScriptedProvider({
+      rules: rules.map((rule: ScriptedRule & { match?: string }) => ({
+        ...rule,
+        match: rule.match ? new RegExp(rule.match, "s") : undefined,
+      })),
+      fallback: Array.isArray(raw) ? undefined : raw.fallback,
+    });
+  }
+
+  addRule(rule: ScriptedRule) {
+    this.rules.push(rule);
+  }
+
+  async chat(
+    messages: LlmMessage[],
+    options: LlmChatOptions = {}
+  ): Promise<LlmChatResult> {
+    this.calls.push(messages);
+    const { content, toolCalls } = this.respond(messages, options);
+    const promptTokens = this.estimateTokens(
+      messages.map((m) => m.content).join("\n")
+    );
+    const completionTokens = this.estimateTokens(content);
+
+    return {
+      content,
+      model: this.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      toolCalls,
+    };
+  }
+
+  // Replays the scripted answer word by word
+  async *stream(
+    messages: LlmMessage[],
+    options: LlmChatOptions = {}
+  ): AsyncIterable<LlmStreamChunk> {
+    const { content, usage, toolCalls } = await this.chat(messages, options);
+    const parts = content.match(/\S+\s*|\s+/g) || [];
+
+    for (const part of parts) {
+      yield { content: part, model: this.model };
+    }
+
+    yield { content: "", model: this.model, usage, toolCalls };
+  }
+
+  async structured<T>(
+    messages: LlmMessage[],
+    schema: ZodType<T>,
+    schemaName: string,
+    options: LlmChatOptions = {}
+  ): Promise<T> {
+    const { content, model, usage } = await this.chat(messages, options);
+    if (usage) options.onUsage?.(usage, model);
+    return schema.parse(JSON.parse(content || "{}"));
+  }
+
+  async embed(input: string[]): Promise<number[][]> {
+    return input.map((text) => this.hashEmbedding(text));
+  }
+
+  private respond(
+    messages: LlmMessage[],
+    options: LlmChatOptions
+  ): { content: string; toolCalls?: LlmToolCall[] } {
+    const text = messages.map((m) => m.content).join("\n");
+
+    for (const rule of this.rules) {
+      // Tool-calling rules only apply when tools are on offer
+      if (rule.toolCalls && !options.tools?.length) continue;
+
+      const matches =
+        rule.match === undefined ||
+        (typeof rule.match === "string"
+          ? text.includes(rule.match)
+          : rule.match.test(text));
+      if (!matches) continue;
+
+      if (rule.times !== undefined && --rule.times <= 0) {
+        this.rules.splice(this.rules.indexOf(rule), 1);
+      }
+
+      return {
+        content:
+          typeof rule.response === "function"
+            ? rule.response(messages)
+            : rule.response,
+        toolCalls: rule.toolCalls?.map((call) => ({
+          id: `call_${++this.toolCallCount}`,
+          ...call,
+        })),
+      };
+    }
+
+    return { content: this.fallback };
+  }
+
+  private hashEmbedding(text: string): number[] {
+    const vector = new Array(this.embeddingDimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+    for (const word of words) {
+      let hash = 0;
+      for (let i = 0; i < word.length; i++) {
+        hash = (hash * 31 + word.charCodeAt(i)) | 0;
+      }
+      vector[Math.abs(hash) % this.embeddingDimensions] += 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  }
+
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
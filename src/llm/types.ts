@@ -0,0 +1,98 @@
+// src/llm/types.ts
+
+import { ZodType } from "zod";
+
+export type LlmSubsystem =
+  | "primary" // Main conversational response
+  | "toolSummary" // Turning raw tool output into prose
+  | "evolutionScore" // Per-interaction evolution scoring
+  | "evolutionAnalysis" // Batch evolution pattern analysis
+  | "memoryImportance" // Long-term retention scoring
+  | "contextSummary" // Context window summarization
+  | "embedding"; // Vector embeddings
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: string; // Raw JSON as produced by the model
+}
+
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON schema
+}
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  toolCalls?: LlmToolCall[]; // Assistant turns that requested tools
+  toolCallId?: string; // Tool turns answering a call
+}
+
+export interface LlmChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  tools?: LlmToolDefinition[]; // Ignored by providers without function calling
+  // Called by structured() with the usage the provider reported, if any
+  onUsage?: (usage: LlmUsage, model: string) => void;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmChatResult {
+  content: string;
+  model: string;
+  usage?: LlmUsage;
+  toolCalls?: LlmToolCall[];
+}
+
+export interface LlmStreamChunk {
+  content: string;
+  model?: string;
+  usage?: LlmUsage; // Only present on the final chunk
+  toolCalls?: LlmToolCall[]; // Assembled from deltas, final chunk only
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly embeddingModel?: string;
+  readonly supportsTools: boolean;
+  chat(
+    messages: LlmMessage[],
+    options?: LlmChatOptions
+  ): Promise<LlmChatResult>;
+  stream(
+    messages: LlmMessage[],
+    options?: LlmChatOptions
+  ): AsyncIterable<LlmStreamChunk>;
+  structured<T>(
+    messages: LlmMessage[],
+    schema: ZodType<T>,
+    schemaName: string,
+    options?: LlmChatOptions
+  ): Promise<T>;
+  embed(input: string[]): Promise<number[][]>;
+}
+
+export interface LlmProviderConfig {
+  provider: "openai" | "local" | "scripted";
+  model?: string;
+  embeddingModel?: string;
+  baseURL?: string;
+  apiKey?: string;
+  scriptFile?: string;
+  functionCalling?: boolean;
+}
+
+export interface LlmConfig {
+  default: LlmProviderConfig;
+  subsystems: Partial<Record<LlmSubsystem, LlmProviderConfig>>;
+}
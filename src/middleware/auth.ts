@@ -1,88 +1,152 @@
 // src/middleware/auth.ts
-import { PublicKey } from "@solana/web3.js";
-import * as bs58 from "bs58";
 import { Request, Response, NextFunction } from "express";
+import { Redis } from "ioredis";
 import jwt from "jsonwebtoken";
-import nacl from "tweetnacl";
 import cookie from "cookie";
+import { WalletAuth } from "../services/walletAuth.js";
+import { AccessClaims, AuthSessions } from "../services/authSessions.js";
+import { Permission, RoleStore, can } from "../services/roles.js";
+import { ApiKeys } from "../services/apiKeys.js";
+import { TierStore } from "../services/tiers.js";
+import { withUsageScope } from "../llm/metering.js";
 
 export interface AuthRequest extends Request {
   user?: {
     id: string;
     role?: string;
+    sessionId?: string;
+    permissions?: readonly Permission[]; // Set for API keys
+    tier?: string;
+    apiKeyId?: string;
   };
 }
 
-const validateSignature = (
-  message: string,
-  signature: string,
-  publicKey: string
-): boolean => {
-  try {
-    const pubKey = new PublicKey(publicKey); // Create PublicKey object
-    const sig = Buffer.from(signature, "base64"); // Decode base64 signature
-    const msg = new TextEncoder().encode(message); // Encode message
-    return nacl.sign.detached.verify(msg, sig, pubKey.toBytes());
-  } catch (error) {
-    console.error("Signature validation error:", error);
-    return false;
-  }
+// End-user ids a namespaced API key may act for
+const END_USER_ID = /^[A-Za-z0-9_.@-]{1,64}$/;
+
+let walletAuth: WalletAuth | undefined;
+let sessions: AuthSessions | undefined;
+let roles: RoleStore | undefined;
+let tiers: TierStore | undefined;
+const apiKeys = new ApiKeys();
+
+// Wallet header logins, roles and the revocation list need Redis; call
+// once at startup
+export const configureAuth = (redis: Redis): void => {
+  walletAuth = new WalletAuth(redis);
+  roles = new RoleStore(redis);
+  tiers = new TierStore(redis);
+  sessions = new AuthSessions(redis, roles, tiers);
+};
+
+export const verifyToken = (token: string): { id: string; role: string } => {
+  return jwt.verify(token, process.env.JWT_SECRET!) as {
+    id: string;
+    role: string;
+  };
 };
 
+// Verifies a token and checks it against the revocation list
+export const authenticateToken = async (
+  token: string
+): Promise<{ id: string; role: string; sessionId?: string; tier?: string }> => {
+  const claims = verifyToken(token) as AccessClaims;
+  if (!sessions) throw new Error("Auth not configured");
+
+  const [revoked, tier] = await Promise.all([
+    sessions.isRevoked(claims),
+    sessions.effectiveTier(claims),
+  ]);
+  if (revoked) throw new Error("Token revoked");
+
+  return { id: claims.id, role: claims.role, sessionId: claims.sid, tier };
+};
+
+// LLM calls made while handling the request are counted as the caller's
+const proceed = (req: AuthRequest, next: NextFunction) =>
+  withUsageScope({ userId: req.user!.id }, next);
+
 export const auth = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
+    // Service integrations. With X-On-Behalf-Of a namespaced key acts as
+    // the end user "<namespace>:<id>", otherwise as the key itself.
+    const apiKey = req.header("x-api-key");
+    if (apiKey) {
+      const principal = await apiKeys.authenticate(apiKey);
+      if (!principal) {
+        res.status(401).json({ error: "Invalid or expired API key" });
+        return;
+      }
+
+      const onBehalfOf = req.header("x-on-behalf-of");
+      if (
+        onBehalfOf &&
+        (!principal.namespace || !END_USER_ID.test(onBehalfOf))
+      ) {
+        res.status(403).json({ error: "This key cannot act for that user" });
+        return;
+      }
+
+      req.user = {
+        id: onBehalfOf
+          ? `${principal.namespace}:${onBehalfOf}`
+          : `apikey:${principal.id}`,
+        role: "service",
+        permissions: principal.permissions,
+        tier: principal.tier,
+        apiKeyId: principal.id,
+      };
+      proceed(req, next);
+      return;
+    }
+
+    // Authenticates this request only: sessions and their tokens come from
+    // the login route. Headers can't carry the multi-line challenge, so the
+    // message is sent base64-encoded.
     if (req.headers["x-wallet-auth"]) {
-      const { signature, publicKey, message } = req.headers;
+      const { signature, publickey: publicKey, message } = req.headers;
+      if (
+        !walletAuth ||
+        !roles ||
+        !tiers ||
+        typeof signature !== "string" ||
+        typeof publicKey !== "string" ||
+        typeof message !== "string"
+      ) {
+        throw new Error();
+      }
 
-      const isValid = await validateSignature(
-        message as string,
-        signature as string,
-        publicKey as string
+      const isValid = await walletAuth.verify(
+        publicKey,
+        Buffer.from(message, "base64").toString(),
+        signature
       );
       if (!isValid) {
         res.status(401).json({ error: "Invalid wallet signature" });
         return;
       }
 
-      const token = jwt.sign(
-        { id: publicKey, role: "user" },
-        process.env.JWT_SECRET!,
-        { expiresIn: "24h" }
-      );
-
-      req.user = { id: publicKey as string };
-
-      // Set the cookie
-      res.setHeader(
-        "Set-Cookie",
-        cookie.serialize("authToken", token, {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === "production",
-          sameSite: "strict",
-          maxAge: 24 * 60 * 60, // 1 day
-          path: "/", // Cookie accessible across the site
-        })
-      );
+      const [role, tier] = await Promise.all([
+        roles.roleOf(publicKey),
+        tiers.tierOf(publicKey),
+      ]);
+      req.user = { id: publicKey, role, tier };
 
-      next();
+      proceed(req, next);
       return;
     }
 
     const token =
-      req.header("Authorization")?.replace("Bearer ", "") || req.cookies.token;
+      req.header("Authorization")?.replace("Bearer ", "") ||
+      cookie.parse(req.headers.cookie || "").authToken;
     if (!token) throw new Error();
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as {
-      id: string;
-      role: string;
-    };
-
-    req.user = decoded;
-    next();
+    req.user = await authenticateToken(token);
+    proceed(req, next);
     return;
   } catch {
     res.status(401).json({ error: "Please authenticate" });
@@ -90,14 +154,18 @@ export const auth = async (
   }
 };
 
-export const adminOnly = (
-  req: AuthRequest,
-  res: Response,
-  next: NextFunction
-): void => {
-  if (req.user?.role !== "admin") {
-    res.status(403).json({ error: "Admin access required" });
-    return;
-  }
-  next();
-};
+// Requires every listed permission of the caller's role
+export const requirePermission =
+  (...permissions: Permission[]) =>
+  (req: AuthRequest, res: Response, next: NextFunction): void => {
+    const missing = permissions.filter(
+      (permission) => !can(req.user, permission)
+    );
+    if (missing.length > 0) {
+      res
+        .status(403)
+        .json({ error: `Missing permission: ${missing.join(", ")}` });
+      return;
+    }
+    next();
+  };
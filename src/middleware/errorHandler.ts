@@ -1,5 +1,6 @@
 // src/middleware/errorHandler.ts
 import { Request, Response, NextFunction, ErrorRequestHandler } from "express";
+import { ZodError } from "zod";
 
 export class AppError extends Error {
   constructor(public statusCode: number, message: string) {
@@ -21,6 +22,17 @@ export const errorHandler: ErrorRequestHandler = (
     return;
   }
 
+  if (err instanceof ZodError) {
+    res.status(400).json({
+      error: "Invalid request",
+      details: err.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    });
+    return;
+  }
+
   console.error("Unexpected error:", err);
   res.status(500).json({
     error:
@@ -1,8 +1,10 @@
 // src/middleware/rateLimiter.ts
-import rateLimit from "express-rate-limit";
+import rateLimit, { Options } from "express-rate-limit";
 import RedisStore from "rate-limit-redis";
 import { Redis } from "ioredis";
-import { Request, Response, NextFunction } from "express";
+import { Request, RequestHandler, Response, NextFunction } from "express";
+import { AuthRequest } from "./auth.js";
+import { TIERS, Tier, tierLimits, tierOrDefault } from "../services/tiers.js";
 
 interface RateLimitConfig {
   windowMs: number;
@@ -10,17 +12,10 @@ interface RateLimitConfig {
   keyPrefix: string;
 }
 
-interface TierConfig {
-  [key: string]: RateLimitConfig;
-}
-
 export class EnhancedRateLimiter {
   private redis: Redis;
-  private defaultConfig: RateLimitConfig = {
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    max: 100,
-    keyPrefix: "rl:",
-  };
+  private tierLimiters = new Map<Tier, RequestHandler>();
+  private counters = new Map<string, RedisStore>(); // For callers outside Express
 
   private limits = {
     global: {
@@ -47,16 +42,29 @@ export class EnhancedRateLimiter {
 
   constructor(redis: Redis) {
     this.redis = redis;
+
+    // Built once per tier and shared by every request on it
+    const limits = tierLimits();
+    TIERS.forEach((tier) =>
+      this.tierLimiters.set(
+        tier,
+        this.createLimiter({ ...limits[tier], keyPrefix: `rl:${tier}:` })
+      )
+    );
+  }
+
+  private createStore(config: RateLimitConfig) {
+    return new RedisStore({
+      // @ts-ignore - Type mismatch with redis.call, but functionally works
+      sendCommand: async (...args: any[]) =>
+        this.redis.call(args[0], ...args.slice(1)),
+      prefix: config.keyPrefix,
+    });
   }
 
   private createLimiter(config: RateLimitConfig) {
     return rateLimit({
-      store: new RedisStore({
-        // @ts-ignore - Type mismatch with redis.call, but functionally works
-        sendCommand: async (...args: any[]) =>
-          this.redis.call(args[0], ...args.slice(1)),
-        prefix: config.keyPrefix,
-      }),
+      store: this.createStore(config),
       windowMs: config.windowMs,
       max: config.max,
       skipFailedRequests: true,
@@ -68,9 +76,9 @@ export class EnhancedRateLimiter {
           type: config.keyPrefix.replace("rl:", "").replace(":", ""),
         });
       },
-      keyGenerator: (req: Request): string => {
+      keyGenerator: (req: AuthRequest): string => {
         // Use user ID if available, otherwise fall back to IP
-        const userId = (req as any).user?.id;
+        const userId = req.user?.id;
         return userId ? `user:${userId}` : req.ip || "unknown";
       },
     });
@@ -92,48 +100,46 @@ export class EnhancedRateLimiter {
     return this.createLimiter(this.limits.memory);
   }
 
+  // Budget of the caller's tier (req.user.tier, set by auth)
   dynamic() {
-    return async (req: Request, res: Response, next: NextFunction) => {
-      const userId = (req as any).user?.id;
-      const userTier = (req as any).user?.tier || "basic";
-
-      const tierLimits = await this.getTierLimits(userTier);
-
-      const limiter = this.createLimiter({
-        windowMs: tierLimits.windowMs,
-        max: tierLimits.max,
-        keyPrefix: `rl:${userTier}:`,
-      });
-
-      return limiter(req, res, next);
-    };
+    return (req: AuthRequest, res: Response, next: NextFunction) =>
+      this.tierLimiters.get(tierOrDefault(req.user?.tier))!(req, res, next);
   }
 
-  private getTierLimits(tier: string): RateLimitConfig {
-    const tierConfigs: TierConfig = {
-      basic: {
-        windowMs: 15 * 60 * 1000,
-        max: 100,
-        keyPrefix: "rl:basic:",
-      },
-      premium: {
-        windowMs: 15 * 60 * 1000,
-        max: 300,
-        keyPrefix: "rl:premium:",
-      },
-      enterprise: {
-        windowMs: 15 * 60 * 1000,
-        max: 1000,
-        keyPrefix: "rl:enterprise:",
-      },
-    };
-
-    return tierConfigs[tier] || this.defaultConfig;
+  // The interaction() and tier budgets for interactions that don't arrive
+  // over HTTP, such as WebSocket messages. Counts against the same keys and
+  // returns the name of the limit that was exceeded, or null.
+  async consumeInteraction(
+    userId: string,
+    tier?: string
+  ): Promise<string | null> {
+    const resolved = tierOrDefault(tier);
+    const limits: [string, RateLimitConfig][] = [
+      ["interaction", this.limits.interaction],
+      [resolved, { ...tierLimits()[resolved], keyPrefix: `rl:${resolved}:` }],
+    ];
+
+    for (const [type, config] of limits) {
+      let store = this.counters.get(config.keyPrefix);
+      if (!store) {
+        store = this.createStore(config);
+        store.init({ windowMs: config.windowMs } as Options);
+        this.counters.set(config.keyPrefix, store);
+      }
+      const { totalHits } = await store.increment(`user:${userId}`);
+      if (totalHits > config.max) return type;
+    }
+    return null;
   }
 
-  async getRateLimitStatus(userId: string) {
+  async getRateLimitStatus(userId: string, tier?: Tier) {
+    const limits: Record<string, RateLimitConfig> = { ...this.limits };
+    if (tier) {
+      limits.tier = { ...tierLimits()[tier], keyPrefix: `rl:${tier}:` };
+    }
+
     const results = await Promise.all(
-      Object.entries(this.limits).map(async ([type, config]) => {
+      Object.entries(limits).map(async ([type, config]) => {
         const key = `${config.keyPrefix}user:${userId}`;
         const count = await this.redis.get(key);
         return {
@@ -154,12 +160,15 @@ export class EnhancedRateLimiter {
     return status;
   }
 
-  async clearUserLimits(userId: string) {
-    const pattern = `rl:*:user:${userId}`;
-    const keys = await this.redis.keys(pattern);
-    if (keys.length > 0) {
-      await this.redis.del(...keys);
-    }
+  // Returns the number of counters removed
+  async clearUserLimits(userId: string): Promise<number> {
+    const prefixes = [
+      ...Object.values(this.limits).map((config) => config.keyPrefix),
+      ...TIERS.map((tier) => `rl:${tier}:`),
+    ];
+    return this.redis.del(
+      ...prefixes.map((prefix) => `${prefix}user:${userId}`)
+    );
   }
 }
 
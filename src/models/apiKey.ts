@@ -0,0 +1,45 @@
+// src/models/apiKey.ts
+import mongoose from "mongoose";
+
+// Keys for service integrations. Only a hash of the key is stored; the
+// prefix identifies a key in listings.
+const apiKeySchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    permissions: {
+      type: [String],
+      default: [],
+    },
+    tier: {
+      type: String,
+      default: "basic",
+    },
+    namespace: String, // Set when the key may act for end users as "<namespace>:<id>"
+    createdBy: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    expiresAt: Date,
+    lastUsedAt: Date,
+    revokedAt: Date,
+  },
+  {
+    timestamps: true,
+    collection: "api_keys",
+  }
+);
+
+export const ApiKey = mongoose.model("ApiKey", apiKeySchema);
@@ -0,0 +1,47 @@
+// src/models/contextWindow.ts
+import mongoose from "mongoose";
+
+// Rolling summary of one context time window. New interactions are merged
+// in incrementally; the summary is rebuilt from scratch once per window
+// length so expired interactions drop out.
+const contextWindowSchema = new mongoose.Schema(
+  {
+    scope: {
+      type: String, // "global" or "user:<userId>"
+      required: true,
+    },
+    hours: {
+      type: Number,
+      required: true,
+    },
+    summary: {
+      type: String,
+      default: "",
+    },
+    // Position of the last summarized interaction: its timestamp, or for
+    // the global window its scoredAt, and its id to break ties
+    cursor: Date,
+    cursorId: String,
+    // Every interaction summarized since the last rebuild, for erasure
+    interactionIds: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+    rebuiltAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "context_windows",
+  }
+);
+
+contextWindowSchema.index({ scope: 1, hours: 1 }, { unique: true });
+
+export const ContextWindow = mongoose.model(
+  "ContextWindow",
+  contextWindowSchema
+);
@@ -0,0 +1,38 @@
+// src/models/conversation.ts
+import mongoose from "mongoose";
+
+// A thread of interactions. Short-term memory is kept per conversation.
+const conversationSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      maxlength: 200,
+    },
+    archived: {
+      type: Boolean,
+      default: false,
+    },
+    messageCount: {
+      type: Number,
+      default: 0,
+    },
+    lastMessageAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "conversations",
+  }
+);
+
+conversationSchema.index({ userId: 1, archived: 1, lastMessageAt: -1 });
+
+export const Conversation = mongoose.model("Conversation", conversationSchema);
@@ -0,0 +1,37 @@
+// src/models/dataRequest.ts
+import mongoose from "mongoose";
+
+// Audit trail for export and erasure requests. The subject is stored as a
+// hash so the log itself doesn't retain the erased identifier.
+const dataRequestSchema = new mongoose.Schema(
+  {
+    subjectHash: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    action: {
+      type: String,
+      enum: ["export", "erase"],
+      required: true,
+    },
+    requestedBy: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["processing", "completed", "failed"],
+      default: "processing",
+    },
+    counts: mongoose.Schema.Types.Mixed,
+    error: String,
+    completedAt: Date,
+  },
+  {
+    timestamps: true,
+    collection: "data_requests",
+  }
+);
+
+export const DataRequest = mongoose.model("DataRequest", dataRequestSchema);
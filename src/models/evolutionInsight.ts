@@ -0,0 +1,52 @@
+// src/models/evolutionInsight.ts
+import mongoose from "mongoose";
+
+// Patterns, developments and recommendations extracted from evolution
+// analyses. Repeat sightings of the same normalized text are merged into
+// one record.
+const evolutionInsightSchema = new mongoose.Schema(
+  {
+    kind: {
+      type: String,
+      enum: ["pattern", "development", "recommendation"],
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    text: {
+      type: String,
+      required: true,
+    },
+    frequency: {
+      type: Number,
+      default: 0,
+    },
+    firstSeen: {
+      type: Date,
+      default: Date.now,
+    },
+    lastSeen: {
+      type: Date,
+      default: Date.now,
+      index: true,
+    },
+    sourceInteractions: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+  },
+  {
+    collection: "evolution_insights",
+  }
+);
+
+evolutionInsightSchema.index({ kind: 1, key: 1 }, { unique: true });
+evolutionInsightSchema.index({ kind: 1, frequency: -1 });
+
+export const EvolutionInsight = mongoose.model(
+  "EvolutionInsight",
+  evolutionInsightSchema
+);
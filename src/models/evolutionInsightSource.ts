@@ -0,0 +1,40 @@
+// src/models/evolutionInsightSource.ts
+import mongoose from "mongoose";
+
+// Every interaction an evolution insight was drawn from, one record each.
+// Insights only keep their latest sources, erasure needs all of them.
+const evolutionInsightSourceSchema = new mongoose.Schema(
+  {
+    kind: {
+      type: String,
+      enum: ["pattern", "development", "recommendation"],
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    interactionId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    recordedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    collection: "evolution_insight_sources",
+  }
+);
+
+evolutionInsightSourceSchema.index(
+  { kind: 1, key: 1, interactionId: 1 },
+  { unique: true }
+);
+
+export const EvolutionInsightSource = mongoose.model(
+  "EvolutionInsightSource",
+  evolutionInsightSourceSchema
+);
@@ -7,6 +7,11 @@ const evolutionQueueSchema = new mongoose.Schema({
     required: true,
     index: true,
   },
+  interactionId: {
+    type: String,
+    required: true,
+    index: true,
+  },
   status: {
     type: String,
     enum: ["pending", "processing", "completed", "failed"],
@@ -0,0 +1,49 @@
+// src/models/evolutionVersion.ts
+import mongoose from "mongoose";
+
+// History of evolution analyses and context summaries. Each kind has its own
+// version sequence; rollbacks append a copy of the restored version rather
+// than rewriting history.
+const evolutionVersionSchema = new mongoose.Schema(
+  {
+    kind: {
+      type: String,
+      enum: ["evolution", "context"],
+      required: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+    },
+    analysis: String, // evolution
+    summary: String, // context
+    topics: [String], // context
+    keyInsights: [String], // context
+    interactionIds: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+    restoredFrom: Number,
+    // Text removed because a source interaction's user was erased
+    redacted: {
+      type: Boolean,
+      default: false,
+    },
+    createdBy: {
+      type: String,
+      default: "system",
+    },
+  },
+  {
+    timestamps: true,
+    collection: "evolution_versions",
+  }
+);
+
+evolutionVersionSchema.index({ kind: 1, version: -1 }, { unique: true });
+
+export const EvolutionVersion = mongoose.model(
+  "EvolutionVersion",
+  evolutionVersionSchema
+);
@@ -2,10 +2,20 @@ import mongoose from "mongoose";
 
 interface IInteraction {
   userId: string;
+  conversationId?: string;
   message: string;
   response: string;
   timestamp: Date;
   evolutionScore: number;
+  scoredAt?: Date;
+  evolutionFactors?: {
+    novelty?: number;
+    complexity?: number;
+    contextAlignment?: number;
+    knowledgeIntegration?: number;
+    embeddingNovelty?: number;
+    responseLength?: number;
+  };
   processed: boolean;
   processingAttempts: number;
   lastProcessingAttempt?: Date;
@@ -13,26 +23,49 @@ interface IInteraction {
     topics: string[];
     insights: string[];
     contextVersion: number;
+    personalContextVersion?: number;
   };
   memoryReferences?: {
     shortTerm: string[];
     longTerm: string[];
   };
+  toolCalls?: {
+    name: string;
+    arguments: unknown;
+    success: boolean;
+    error?: string;
+    durationMs: number;
+  }[];
+  processingSteps?: {
+    stage: string;
+    message: string;
+    progress: number;
+    elapsedMs: number;
+  }[];
   metadata?: {
-    processingTime: number;
+    processingTime: number; // ms from request to storage
     tokenCount: number;
     modelVersion: string;
-    responseLatency: number;
+    responseLatency: number; // ms until the response was complete
   };
 }
 
-const interactionSchema = new mongoose.Schema<IInteraction>(
+interface IInteractionModel extends mongoose.Model<IInteraction> {
+  findUnprocessed(
+    limit?: number
+  ): mongoose.Query<mongoose.HydratedDocument<IInteraction>[], IInteraction>;
+}
+
+const interactionSchema = new mongoose.Schema<IInteraction, IInteractionModel>(
   {
     userId: {
       type: String,
       required: true,
       index: true,
     },
+    conversationId: {
+      type: String,
+    },
     message: {
       type: String,
       required: true,
@@ -53,6 +86,21 @@ const interactionSchema = new mongoose.Schema<IInteraction>(
       max: 1,
       index: true,
     },
+    // When evolutionScore was last set. Re-scoring can move an older
+    // interaction into the global context, which follows this time.
+    scoredAt: {
+      type: Date,
+      index: true,
+    },
+    // Per-factor scores the evolution score was combined from
+    evolutionFactors: {
+      novelty: Number,
+      complexity: Number,
+      contextAlignment: Number,
+      knowledgeIntegration: Number,
+      embeddingNovelty: Number,
+      responseLength: Number,
+    },
     // Track evolution processing status
     processed: {
       type: Boolean,
@@ -71,12 +119,34 @@ const interactionSchema = new mongoose.Schema<IInteraction>(
       topics: [String],
       insights: [String],
       contextVersion: Number,
+      personalContextVersion: Number,
     },
     // References to related memories
     memoryReferences: {
       shortTerm: [String],
       longTerm: [String],
     },
+    // Tools called while generating the response, in call order
+    toolCalls: [
+      {
+        _id: false,
+        name: String,
+        arguments: mongoose.Schema.Types.Mixed,
+        success: Boolean,
+        error: String,
+        durationMs: Number,
+      },
+    ],
+    // Stages of handling, timed from the start of the interaction
+    processingSteps: [
+      {
+        _id: false,
+        stage: String,
+        message: String,
+        progress: Number,
+        elapsedMs: Number,
+      },
+    ],
     // Additional metadata
     metadata: {
       processingTime: Number,
@@ -94,6 +164,12 @@ const interactionSchema = new mongoose.Schema<IInteraction>(
 // Indexes for common queries
 interactionSchema.index({ timestamp: -1, evolutionScore: -1 });
 interactionSchema.index({ userId: 1, timestamp: -1 });
+interactionSchema.index({ conversationId: 1, timestamp: -1 });
+interactionSchema.index({ "context.topics": 1, timestamp: -1 });
+interactionSchema.index(
+  { message: "text", response: "text" },
+  { name: "interaction_text", weights: { message: 2, response: 1 } }
+);
 interactionSchema.index({ processed: 1, processingAttempts: 1 });
 
 // Method to mark as processed
@@ -116,12 +192,10 @@ interactionSchema.statics.findUnprocessed = function (limit = 10) {
   return this.find({
     processed: false,
     processingAttempts: { $lt: 3 },
-    lastProcessingAttempt: {
-      $or: [
-        { $exists: false },
-        { $lt: new Date(Date.now() - 15 * 60 * 1000) }, // 15 minutes ago
-      ],
-    },
+    $or: [
+      { lastProcessingAttempt: { $exists: false } },
+      { lastProcessingAttempt: { $lt: new Date(Date.now() - 15 * 60 * 1000) } }, // 15 minutes ago
+    ],
   })
     .sort({ evolutionScore: -1, timestamp: 1 })
     .limit(limit);
@@ -135,7 +209,7 @@ interactionSchema.pre("save", function (next) {
   next();
 });
 
-export const Interaction = mongoose.model<IInteraction>(
+export const Interaction = mongoose.model<IInteraction, IInteractionModel>(
   "Interaction",
   interactionSchema
 );
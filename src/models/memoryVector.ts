@@ -0,0 +1,28 @@
+// src/models/memoryVector.ts
+import mongoose from "mongoose";
+
+const memoryVectorSchema = new mongoose.Schema(
+  {
+    namespace: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    itemId: {
+      type: String,
+      required: true,
+    },
+    vector: {
+      type: [Number],
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "memory_vectors",
+  }
+);
+
+memoryVectorSchema.index({ namespace: 1, itemId: 1 }, { unique: true });
+
+export const MemoryVector = mongoose.model("MemoryVector", memoryVectorSchema);
@@ -0,0 +1,59 @@
+// src/models/usageRecord.ts
+import mongoose from "mongoose";
+
+const retentionDays = parseInt(process.env.USAGE_RETENTION_DAYS || "90");
+
+// One record per LLM call. userId is missing for the system's own calls
+// (evolution batches, global context rebuilds).
+const usageRecordSchema = new mongoose.Schema(
+  {
+    userId: String,
+    interactionId: String,
+    subsystem: {
+      type: String,
+      required: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    model: {
+      type: String,
+      required: true,
+    },
+    promptTokens: {
+      type: Number,
+      default: 0,
+    },
+    completionTokens: {
+      type: Number,
+      default: 0,
+    },
+    totalTokens: {
+      type: Number,
+      default: 0,
+    },
+    cost: {
+      type: Number,
+      default: 0,
+    }, // USD
+    estimated: {
+      type: Boolean,
+      default: false,
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now,
+      expires: retentionDays * 24 * 60 * 60,
+    },
+  },
+  {
+    collection: "llm_usage",
+  }
+);
+
+usageRecordSchema.index({ userId: 1, timestamp: -1 });
+usageRecordSchema.index({ interactionId: 1 });
+usageRecordSchema.index({ subsystem: 1, timestamp: -1 });
+
+export const UsageRecord = mongoose.model("UsageRecord", usageRecordSchema);
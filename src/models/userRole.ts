@@ -0,0 +1,28 @@
+// src/models/userRole.ts
+import mongoose from "mongoose";
+
+// Roles granted to wallets; wallets without a record have the default role
+const userRoleSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    role: {
+      type: String,
+      enum: ["viewer", "user", "operator", "admin"],
+      required: true,
+    },
+    grantedBy: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "user_roles",
+  }
+);
+
+export const UserRole = mongoose.model("UserRole", userRoleSchema);
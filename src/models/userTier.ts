@@ -0,0 +1,28 @@
+// src/models/userTier.ts
+import mongoose from "mongoose";
+
+// Rate-limit tier of a wallet; wallets without a record are on the default
+const userTierSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    tier: {
+      type: String,
+      enum: ["basic", "premium", "enterprise"],
+      required: true,
+    },
+    updatedBy: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: "user_tiers",
+  }
+);
+
+export const UserTier = mongoose.model("UserTier", userTierSchema);
@@ -1,28 +1,120 @@
-import { RequestHandler, Router } from "express";
+import { RequestHandler, Response, Router } from "express";
 import { Redis } from "ioredis";
-import { AuthRequest, auth, adminOnly } from "../middleware/auth.js";
-import { VirusProtocolCore } from "../services/virusProtocol.js";
+import { AuthRequest, auth, requirePermission } from "../middleware/auth.js";
+import { can } from "../services/roles.js";
+import {
+  InteractionResult,
+  StreamFrame,
+  VirusProtocolCore,
+} from "../services/virusProtocol.js";
 import { EvolutionQueue } from "../models/evolutionQueue.js";
+import {
+  INTERACTION_FIELDS,
+  InteractionSearch,
+  decodeCursor,
+} from "../services/interactionSearch.js";
 import { AppError } from "../middleware/errorHandler.js";
 import { EnhancedRateLimiter } from "../middleware/rateLimiter.js";
+import { TierStore, tierOrDefault } from "../services/tiers.js";
 import mongoose from "mongoose";
 import { z } from "zod";
-import jwt from "jsonwebtoken";
 
-const walletSchema = z.object({
-  signature: z.string().min(1),
-  publicKey: z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/),
+const pageSchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const interactSchema = z.object({
   message: z.string().min(1),
+  conversationId: z.string().min(1).optional(),
+});
+
+const cursorSchema = z.string().transform((value, ctx) => {
+  const cursor = decodeCursor(value);
+  if (!cursor) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+    return z.NEVER;
+  }
+  return cursor;
+});
+
+const historySchema = z.object({
+  conversationId: z.string().min(1).optional(),
+  cursor: cursorSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+const interactionQuerySchema = z.object({
+  userId: z.string().min(1).optional(),
+  conversationId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  minScore: z.coerce.number().min(0).max(1).optional(),
+  maxScore: z.coerce.number().min(0).max(1).optional(),
+  topic: z.string().min(1).optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+  fields: z
+    .string()
+    .transform((value) =>
+      value
+        .split(",")
+        .map((field) => field.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(z.enum(INTERACTION_FIELDS)).min(1))
+    .optional(),
+  cursor: cursorSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const requeueSchema = z.object({
+  interactionIds: z.array(z.string().min(1)).min(1).optional(),
 });
 
 export const createApiRouter = (
   virusProtocol: VirusProtocolCore,
   redis: Redis,
-  broadcast: (data: any) => void
+  broadcast: (interaction: InteractionResult) => void
 ) => {
   const router = Router();
   const rateLimiter = new EnhancedRateLimiter(redis);
+  const tiers = new TierStore(redis);
   const clients = new Map<string, Response>();
+  const interactionSearch = new InteractionSearch();
+
+  // Messages may continue one of the caller's open conversations; without
+  // an id a new conversation is started
+  const checkConversation = async (
+    req: AuthRequest,
+    conversationId?: string
+  ) => {
+    if (!conversationId) return;
+    const conversation = await virusProtocol.conversations.get(
+      req.user!.id,
+      conversationId
+    );
+    if (!conversation) {
+      throw new AppError(404, "Conversation not found");
+    }
+    if (conversation.archived) {
+      throw new AppError(409, "Conversation is archived");
+    }
+  };
+
+  // Interactions stop for the day once the caller's token quota is spent
+  const checkQuota = async (req: AuthRequest, res: Response) => {
+    const quota = await virusProtocol.usage.quotaStatus(
+      req.user!.id,
+      tierOrDefault(req.user!.tier)
+    );
+    if (quota.exceeded) {
+      res.setHeader(
+        "Retry-After",
+        Math.ceil((quota.resetsAt.getTime() - Date.now()) / 1000)
+      );
+      throw new AppError(429, "Daily usage quota exceeded");
+    }
+  };
 
   // Health check - no rate limit needed
   router.get("/health", ((req, res) => {
@@ -35,49 +127,100 @@ export const createApiRouter = (
     res.status(health.mongo && health.redis ? 200 : 503).json(health);
   }) as RequestHandler);
 
-  // Wallet connection - global rate limit
+  // Interaction endpoints with specific rate limits
   router.post(
-    "/connect-wallet",
-    rateLimiter.global(),
-    async (req, res, next): Promise<void> => {
+    "/interact",
+    auth,
+    requirePermission("interact"),
+    rateLimiter.interaction(),
+    rateLimiter.dynamic(), // Tier budget on top of the per-route limit
+    async (req: AuthRequest, res, next) => {
       try {
-        const validated = walletSchema.parse(req.body);
-        const { signature, publicKey, message } = validated;
-
-        const token = jwt.sign(
-          { id: publicKey, role: "user" },
-          process.env.JWT_SECRET!,
-          { expiresIn: "24h", algorithm: "HS256" }
+        const { message, conversationId } = interactSchema.parse(req.body);
+        await checkConversation(req, conversationId);
+        await checkQuota(req, res);
+        const interaction = await virusProtocol.handleInteraction(
+          req.user!.id,
+          message,
+          conversationId
         );
+        res.json(interaction);
 
-        res.status(200).json({ token });
+        // Broadcast the new interaction
+        broadcast(interaction);
       } catch (error) {
         next(error);
       }
     }
   );
 
-  // Interaction endpoints with specific rate limits
+  // Streaming interaction over Server-Sent Events
   router.post(
-    "/interact",
+    "/interact/stream",
     auth,
+    requirePermission("interact"),
     rateLimiter.interaction(),
+    rateLimiter.dynamic(), // Tier budget on top of the per-route limit
     async (req: AuthRequest, res, next) => {
+      let clientClosed = false;
+      res.on("close", () => {
+        clientClosed = true;
+      });
+
+      // The stream opens with the first frame, so failures before it
+      // still get an error response
+      const send = (frame: StreamFrame) => {
+        if (clientClosed) return;
+        if (!res.headersSent) {
+          res.writeHead(200, {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            Connection: "keep-alive",
+          });
+        }
+        res.write(`event: ${frame.type}\ndata: ${JSON.stringify(frame)}\n\n`);
+      };
+
       try {
-        const interaction = await virusProtocol.handleInteraction(
+        const { message, conversationId } = interactSchema.parse(req.body);
+        await checkConversation(req, conversationId);
+        await checkQuota(req, res);
+
+        const { finalized } = await virusProtocol.streamInteraction(
           req.user!.id,
-          req.body.message
+          message,
+          send,
+          conversationId
         );
-        res.json(interaction);
+        res.end();
 
-        // Broadcast the new interaction
-        broadcast(interaction);
+        // Broadcast once scoring and storage have finished
+        finalized
+          .then((interaction) => broadcast(interaction))
+          .catch((error) =>
+            console.error("Error finalizing streamed interaction:", error)
+          );
       } catch (error) {
+        // Once the stream is open the error went out as its error frame
+        if (res.headersSent) {
+          res.end();
+          return;
+        }
         next(error);
       }
     }
   );
 
+  // Tool catalogue with argument schemas
+  router.get("/tools", auth, async (req: AuthRequest, res, next) => {
+    try {
+      const tools = await virusProtocol.getAvailableTools();
+      res.json(tools);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Add this to your existing routes in the createApiRouter function
 
   router.get(
@@ -86,14 +229,24 @@ export const createApiRouter = (
     rateLimiter.memory(), // Using memory limiter for data retrieval
     async (req: AuthRequest, res, next) => {
       try {
-        // Fetch interactions for the authenticated user
-        const interactions = await mongoose
-          .model("Interaction")
-          .find({ userId: req.user!.id })
-          .sort({ timestamp: -1 })
-          .limit(100); // Optionally limit to most recent 100 interactions
-
-        res.status(200).json(interactions);
+        const query = historySchema.parse(req.query);
+        if (
+          query.conversationId &&
+          !(await virusProtocol.conversations.get(
+            req.user!.id,
+            query.conversationId
+          ))
+        ) {
+          throw new AppError(404, "Conversation not found");
+        }
+
+        // Newest first, across all conversations unless one is given
+        const page = await interactionSearch.page(
+          { userId: req.user!.id, conversationId: query.conversationId },
+          { cursor: query.cursor, limit: query.limit }
+        );
+
+        res.status(200).json({ ...page, limit: query.limit });
       } catch (error) {
         next(error);
       }
@@ -107,7 +260,10 @@ export const createApiRouter = (
     rateLimiter.evolution(),
     async (req: AuthRequest, res, next) => {
       try {
-        if (req.user!.id !== req.params.userId && req.user!.role !== "admin") {
+        if (
+          req.user!.id !== req.params.userId &&
+          !can(req.user, "evolution:manage")
+        ) {
           throw new AppError(403, "Not authorized to view this status");
         }
         const status = await EvolutionQueue.find({
@@ -124,7 +280,7 @@ export const createApiRouter = (
   router.get(
     "/admin/stats",
     auth,
-    adminOnly,
+    requirePermission("stats:read"),
     rateLimiter.dynamic(), // Uses tier-based limiting
     async (req: AuthRequest, res, next) => {
       try {
@@ -136,14 +292,94 @@ export const createApiRouter = (
     }
   );
 
+  // Evolution queue controls; the worker process picks these up between batches
+  router.get(
+    "/admin/evolution/queue",
+    auth,
+    requirePermission("evolution:manage"),
+    async (req: AuthRequest, res, next) => {
+      try {
+        const status = await virusProtocol.getQueueStatus();
+        res.json(status);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/admin/evolution/pause",
+    auth,
+    requirePermission("evolution:manage"),
+    async (req: AuthRequest, res, next) => {
+      try {
+        await virusProtocol.evolutionJobs.pause();
+        res.json({ message: "Evolution processing paused" });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/admin/evolution/resume",
+    auth,
+    requirePermission("evolution:manage"),
+    async (req: AuthRequest, res, next) => {
+      try {
+        await virusProtocol.evolutionJobs.resume();
+        res.json({ message: "Evolution processing resumed" });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get(
+    "/admin/evolution/dead-letters",
+    auth,
+    requirePermission("evolution:manage"),
+    async (req: AuthRequest, res, next) => {
+      try {
+        const { offset, limit } = pageSchema.parse(req.query);
+        const deadLetters = await virusProtocol.evolutionJobs.listDeadLetters(
+          offset,
+          limit
+        );
+        res.json(deadLetters);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/admin/evolution/dead-letters/requeue",
+    auth,
+    requirePermission("evolution:manage"),
+    async (req: AuthRequest, res, next) => {
+      try {
+        const { interactionIds } = requeueSchema.parse(req.body || {});
+        const requeued =
+          await virusProtocol.requeueDeadEvolutions(interactionIds);
+        res.json({ requeued });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   // Rate limit monitoring for admins
   router.get(
     "/admin/rate-limits/:userId",
     auth,
-    adminOnly,
+    requirePermission("users:manage"),
     async (req: AuthRequest, res, next) => {
       try {
-        const status = await rateLimiter.getRateLimitStatus(req.params.userId);
+        const status = await rateLimiter.getRateLimitStatus(
+          req.params.userId,
+          await tiers.tierOf(req.params.userId)
+        );
         res.json(status);
       } catch (error) {
         next(error);
@@ -155,7 +391,7 @@ export const createApiRouter = (
   router.post(
     "/admin/rate-limits/:userId/clear",
     auth,
-    adminOnly,
+    requirePermission("users:manage"),
     async (req: AuthRequest, res, next) => {
       try {
         await rateLimiter.clearUserLimits(req.params.userId);
@@ -169,15 +405,55 @@ export const createApiRouter = (
   router.get(
     "/interactions",
     auth,
+    requirePermission("interactions:read"),
     rateLimiter.memory(), // Using memory limiter for data retrieval
     async (req: AuthRequest, res, next) => {
       try {
-        const interactions = await mongoose
-          .model("Interaction")
-          .find()
-          .sort({ timestamp: -1 });
+        const { cursor, limit, fields, ...filter } =
+          interactionQuerySchema.parse(req.query);
 
-        res.status(200).json(interactions);
+        // Without read_any callers only ever see their own interactions
+        if (!can(req.user, "interactions:read_any")) {
+          if (filter.userId && filter.userId !== req.user!.id) {
+            throw new AppError(
+              403,
+              "Not authorized to view these interactions"
+            );
+          }
+          filter.userId = req.user!.id;
+        }
+
+        const page = await interactionSearch.page(filter, {
+          cursor,
+          limit,
+          fields,
+        });
+        res.status(200).json({ ...page, limit });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // One interaction with the context, memories, tool calls, timings and
+  // LLM usage behind its response
+  router.get(
+    "/interactions/:id",
+    auth,
+    requirePermission("interactions:read"),
+    rateLimiter.memory(),
+    async (req: AuthRequest, res, next) => {
+      try {
+        const detail = await virusProtocol.getInteractionDetail(req.params.id);
+        // Other users' interactions are reported as missing
+        if (
+          !detail ||
+          (detail.userId !== req.user!.id &&
+            !can(req.user, "interactions:read_any"))
+        ) {
+          throw new AppError(404, "Interaction not found");
+        }
+        res.json(detail);
       } catch (error) {
         next(error);
       }
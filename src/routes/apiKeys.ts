@@ -0,0 +1,113 @@
+import { Router } from "express";
+import { z } from "zod";
+import { AuthRequest, auth, requirePermission } from "../middleware/auth.js";
+import { AppError } from "../middleware/errorHandler.js";
+import { ApiKeys } from "../services/apiKeys.js";
+import { PERMISSIONS } from "../services/roles.js";
+import { DEFAULT_TIER, TIERS } from "../services/tiers.js";
+
+// Keys never manage keys or roles
+const keyPermissionSchema = z
+  .enum(PERMISSIONS)
+  .refine(
+    (permission) =>
+      permission !== "api_keys:manage" && permission !== "roles:manage",
+    { message: "API keys cannot hold this permission" }
+  );
+
+const tierSchema = z.enum(TIERS);
+
+const createSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    permissions: z.array(keyPermissionSchema).min(1),
+    tier: tierSchema.default(DEFAULT_TIER),
+    namespace: z
+      .string()
+      .regex(/^[a-z][a-z0-9_-]{1,31}$/)
+      .optional(),
+    expiresAt: z.coerce.date().optional(),
+  })
+  .strict();
+
+const updateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    permissions: z.array(keyPermissionSchema).min(1).optional(),
+    tier: tierSchema.optional(),
+    expiresAt: z.coerce.date().optional(),
+  })
+  .strict();
+
+const listQuerySchema = z.object({
+  includeRevoked: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .default("false"),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Admin management of service API keys
+export const createApiKeyRouter = () => {
+  const router = Router();
+  const apiKeys = new ApiKeys();
+
+  router.use("/admin/api-keys", auth, requirePermission("api_keys:manage"));
+
+  router.get("/admin/api-keys", async (req: AuthRequest, res, next) => {
+    try {
+      const query = listQuerySchema.parse(req.query);
+      const { items, total } = await apiKeys.list(query);
+      res.json({ items, total, offset: query.offset, limit: query.limit });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The key itself is only shown in this response
+  router.post("/admin/api-keys", async (req: AuthRequest, res, next) => {
+    try {
+      const input = createSchema.parse(req.body);
+      if (input.expiresAt && input.expiresAt.getTime() <= Date.now()) {
+        throw new AppError(400, "expiresAt must be in the future");
+      }
+      res.status(201).json(await apiKeys.create(input, req.user!.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get("/admin/api-keys/:id", async (req: AuthRequest, res, next) => {
+    try {
+      const apiKey = await apiKeys.get(req.params.id);
+      if (!apiKey) throw new AppError(404, "API key not found");
+      res.json(apiKey);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.patch("/admin/api-keys/:id", async (req: AuthRequest, res, next) => {
+    try {
+      const changes = updateSchema.parse(req.body);
+      const updated = await apiKeys.update(req.params.id, changes);
+      if (!updated) throw new AppError(404, "API key not found");
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.delete("/admin/api-keys/:id", async (req: AuthRequest, res, next) => {
+    try {
+      const revoked = await apiKeys.revoke(req.params.id);
+      if (!revoked) throw new AppError(404, "API key not found");
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,210 @@
+import { Request, Router } from "express";
+import { Redis } from "ioredis";
+import { z } from "zod";
+import { AuthRequest, auth, requirePermission } from "../middleware/auth.js";
+import { AppError } from "../middleware/errorHandler.js";
+import { EnhancedRateLimiter } from "../middleware/rateLimiter.js";
+import { WalletAuth } from "../services/walletAuth.js";
+import { AuthSession, AuthSessions } from "../services/authSessions.js";
+import { RoleStore, permissionsOf } from "../services/roles.js";
+
+const publicKeySchema = z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/);
+
+const challengeSchema = z.object({
+  publicKey: publicKeySchema,
+});
+
+const walletSchema = z.object({
+  signature: z.string().min(1),
+  publicKey: publicKeySchema,
+  message: z.string().min(1),
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const metadataOf = (req: Request) => ({
+  ip: req.ip,
+  userAgent: req.get("user-agent"),
+});
+
+const sessionView = (session: AuthSession, currentId?: string) => ({
+  id: session.id,
+  createdAt: session.createdAt,
+  lastUsedAt: session.lastUsedAt,
+  ip: session.ip,
+  userAgent: session.userAgent,
+  current: session.id === currentId,
+});
+
+// Wallet login: request a challenge, sign its message, then exchange the
+// signature for an access token and a refresh token. Sessions can be listed
+// and ended by their owner, or by an admin.
+export const createAuthRouter = (redis: Redis) => {
+  const router = Router();
+  const rateLimiter = new EnhancedRateLimiter(redis);
+  const walletAuth = new WalletAuth(redis);
+  const roles = new RoleStore(redis);
+  const sessions = new AuthSessions(redis, roles);
+
+  router.post(
+    "/auth/challenge",
+    rateLimiter.global(),
+    async (req, res, next): Promise<void> => {
+      try {
+        const { publicKey } = challengeSchema.parse(req.body);
+        res.status(200).json(await walletAuth.createChallenge(publicKey));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Wallet connection - global rate limit
+  router.post(
+    "/connect-wallet",
+    rateLimiter.global(),
+    async (req, res, next): Promise<void> => {
+      try {
+        const { signature, publicKey, message } = walletSchema.parse(req.body);
+
+        if (!(await walletAuth.verify(publicKey, message, signature))) {
+          throw new AppError(401, "Invalid or expired wallet signature");
+        }
+
+        const { accessToken, refreshToken, expiresIn } = await sessions.create(
+          publicKey,
+          await roles.roleOf(publicKey),
+          metadataOf(req)
+        );
+
+        res.status(200).json({ token: accessToken, refreshToken, expiresIn });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Rotates the refresh token; each one works only once
+  router.post(
+    "/auth/refresh",
+    rateLimiter.global(),
+    async (req, res, next): Promise<void> => {
+      try {
+        const { refreshToken } = refreshSchema.parse(req.body);
+        const issued = await sessions.refresh(refreshToken, metadataOf(req));
+        if (!issued) {
+          throw new AppError(401, "Invalid or expired refresh token");
+        }
+
+        res.status(200).json({
+          token: issued.accessToken,
+          refreshToken: issued.refreshToken,
+          expiresIn: issued.expiresIn,
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // The caller's identity as carried in the token
+  router.get("/auth/me", auth, (req: AuthRequest, res) => {
+    res.json({
+      id: req.user!.id,
+      role: req.user!.role,
+      permissions: req.user!.permissions ?? permissionsOf(req.user!.role),
+    });
+  });
+
+  router.post("/auth/logout", auth, async (req: AuthRequest, res, next) => {
+    try {
+      if (req.user!.sessionId) {
+        await sessions.revoke(req.user!.sessionId);
+      }
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get("/auth/sessions", auth, async (req: AuthRequest, res, next) => {
+    try {
+      const items = await sessions.list(req.user!.id);
+      res.json({
+        items: items.map((session) =>
+          sessionView(session, req.user!.sessionId)
+        ),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.delete(
+    "/auth/sessions/:id",
+    auth,
+    async (req: AuthRequest, res, next) => {
+      try {
+        const session = await sessions.get(req.params.id);
+        if (!session || session.userId !== req.user!.id) {
+          throw new AppError(404, "Session not found");
+        }
+        await sessions.revoke(session.id);
+        res.status(204).end();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Forced sign-out
+  router.get(
+    "/admin/users/:userId/sessions",
+    auth,
+    requirePermission("users:manage"),
+    async (req: AuthRequest, res, next) => {
+      try {
+        const items = await sessions.list(req.params.userId);
+        res.json({ items: items.map((session) => sessionView(session)) });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.delete(
+    "/admin/users/:userId/sessions",
+    auth,
+    requirePermission("users:manage"),
+    async (req: AuthRequest, res, next) => {
+      try {
+        const revoked = await sessions.revokeUser(req.params.userId);
+        res.json({ revoked });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.delete(
+    "/admin/users/:userId/sessions/:id",
+    auth,
+    requirePermission("users:manage"),
+    async (req: AuthRequest, res, next) => {
+      try {
+        const session = await sessions.get(req.params.id);
+        if (!session || session.userId !== req.params.userId) {
+          throw new AppError(404, "Session not found");
+        }
+        await sessions.revoke(session.id);
+        res.status(204).end();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
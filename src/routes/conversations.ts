@@ -0,0 +1,103 @@
+import { Router } from "express";
+import { z } from "zod";
+import { AuthRequest, auth, requirePermission } from "../middleware/auth.js";
+import { AppError } from "../middleware/errorHandler.js";
+import { VirusProtocolCore } from "../services/virusProtocol.js";
+
+const listQuerySchema = z.object({
+  archived: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .default("false"),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const createSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200).optional(),
+  })
+  .strict();
+
+const updateSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200).optional(),
+    archived: z.boolean().optional(),
+  })
+  .strict();
+
+// The caller's conversation threads
+export const createConversationRouter = (virusProtocol: VirusProtocolCore) => {
+  const router = Router();
+  const conversations = virusProtocol.conversations;
+
+  router.use("/conversations", auth);
+
+  router.get("/conversations", async (req: AuthRequest, res, next) => {
+    try {
+      const query = listQuerySchema.parse(req.query);
+      const { items, total } = await conversations.list(req.user!.id, query);
+      res.json({ items, total, offset: query.offset, limit: query.limit });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post(
+    "/conversations",
+    requirePermission("interact"),
+    async (req: AuthRequest, res, next) => {
+      try {
+        const { title } = createSchema.parse(req.body || {});
+        const conversation = await conversations.create(
+          req.user!.id,
+          title || conversations.titleFrom("")
+        );
+        res.status(201).json(conversation);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get("/conversations/:id", async (req: AuthRequest, res, next) => {
+    try {
+      const conversation = await conversations.get(req.user!.id, req.params.id);
+      if (!conversation) throw new AppError(404, "Conversation not found");
+      res.json(conversation);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Rename or (un)archive
+  router.patch("/conversations/:id", async (req: AuthRequest, res, next) => {
+    try {
+      const changes = updateSchema.parse(req.body);
+      const updated = await conversations.update(
+        req.user!.id,
+        req.params.id,
+        changes
+      );
+      if (!updated) throw new AppError(404, "Conversation not found");
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.delete("/conversations/:id", async (req: AuthRequest, res, next) => {
+    try {
+      const deleted = await virusProtocol.deleteConversation(
+        req.user!.id,
+        req.params.id
+      );
+      if (!deleted) throw new AppError(404, "Conversation not found");
+      res.json(deleted);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+};
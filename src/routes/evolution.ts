@@ -0,0 +1,246 @@
+import { Router } from "express";
+import mongoose from "mongoose";
+import { z } from "zod";
+import { AuthRequest, auth, requirePermission } from "../middleware/auth.js";
+import { AppError } from "../middleware/errorHandler.js";
+import { VirusProtocolCore } from "../services/virusProtocol.js";
+import { factorWeightsSchema } from "../services/evolutionScorer.js";
+import { can } from "../services/roles.js";
+
+const kindSchema = z.enum(["evolution", "context"]);
+
+const versionParamsSchema = z.object({
+  kind: kindSchema,
+  version: z.coerce.number().int().min(1),
+});
+
+const listQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const insightsQuerySchema = z.object({
+  kind: z.enum(["pattern", "development", "recommendation"]).optional(),
+  sort: z.enum(["frequency", "lastSeen"]).default("frequency"),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const rescoreSchema = z
+  .object({
+    since: z.coerce.date().optional(),
+    limit: z.number().int().min(1).max(10000).default(1000),
+    recomputeFactors: z.boolean().default(false),
+  })
+  .strict();
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+});
+
+// Source interactions belong to many users, so only operators see them
+const forViewer = <T extends { sourceInteractions?: string[] }>(
+  req: AuthRequest,
+  insight: T
+) => {
+  if (can(req.user, "evolution:manage")) return insight;
+  const { sourceInteractions, ...rest } = insight;
+  return rest;
+};
+
+// Evolution insights, plus the admin history of evolution analyses and
+// context summaries
+export const createEvolutionRouter = (virusProtocol: VirusProtocolCore) => {
+  const router = Router();
+  const versions = virusProtocol.versions;
+  const insights = virusProtocol.insights;
+
+  router.get(
+    "/evolution/insights",
+    auth,
+    async (req: AuthRequest, res, next) => {
+      try {
+        const query = insightsQuerySchema.parse(req.query);
+        const { items, total } = await insights.list(query);
+        res.json({
+          items: items.map((item) => forViewer(req, item)),
+          total,
+          offset: query.offset,
+          limit: query.limit,
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get(
+    "/evolution/insights/:id",
+    auth,
+    async (req: AuthRequest, res, next) => {
+      try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+          throw new AppError(404, "Insight not found");
+        }
+        const insight = await insights.get(req.params.id);
+        if (!insight) {
+          throw new AppError(404, "Insight not found");
+        }
+        res.json(forViewer(req, insight));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.use(
+    "/admin/evolution/versions",
+    auth,
+    requirePermission("evolution:manage")
+  );
+  router.use(
+    "/admin/evolution/scoring",
+    auth,
+    requirePermission("evolution:manage")
+  );
+
+  // Evolution score weights and re-scoring
+  router.get(
+    "/admin/evolution/scoring/weights",
+    async (req: AuthRequest, res, next) => {
+      try {
+        res.json(await virusProtocol.scorer.getWeights());
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.put(
+    "/admin/evolution/scoring/weights",
+    async (req: AuthRequest, res, next) => {
+      try {
+        const weights = factorWeightsSchema.partial().parse(req.body);
+        const merged = {
+          ...(await virusProtocol.scorer.getWeights()),
+          ...weights,
+        };
+        if (Object.values(merged).every((weight) => weight === 0)) {
+          throw new AppError(400, "At least one weight must be positive");
+        }
+        res.json(await virusProtocol.scorer.setWeights(weights));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.delete(
+    "/admin/evolution/scoring/weights",
+    async (req: AuthRequest, res, next) => {
+      try {
+        res.json(await virusProtocol.scorer.resetWeights());
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/admin/evolution/scoring/rescore",
+    async (req: AuthRequest, res, next) => {
+      try {
+        const options = rescoreSchema.parse(req.body || {});
+        res.json(await virusProtocol.rescoreInteractions(options));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get(
+    "/admin/evolution/versions/:kind",
+    async (req: AuthRequest, res, next) => {
+      try {
+        const kind = kindSchema.parse(req.params.kind);
+        const query = listQuerySchema.parse(req.query);
+        const { versions: items, total } = await versions.list(kind, query);
+        res.json({ items, total, offset: query.offset, limit: query.limit });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get(
+    "/admin/evolution/versions/:kind/diff",
+    async (req: AuthRequest, res, next) => {
+      try {
+        const kind = kindSchema.parse(req.params.kind);
+        const { from, to } = diffQuerySchema.parse(req.query);
+        const [fromVersion, toVersion] = await Promise.all([
+          versions.get(kind, from),
+          versions.get(kind, to),
+        ]);
+        if (!fromVersion || !toVersion) {
+          throw new AppError(404, "Version not found");
+        }
+
+        res.json({
+          kind,
+          from,
+          to,
+          lines: versions.diff(fromVersion, toVersion),
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get(
+    "/admin/evolution/versions/:kind/:version",
+    async (req: AuthRequest, res, next) => {
+      try {
+        const { kind, version } = versionParamsSchema.parse(req.params);
+        const found = await versions.get(kind, version);
+        if (!found) {
+          throw new AppError(404, "Version not found");
+        }
+        res.json(found);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post(
+    "/admin/evolution/versions/:kind/:version/rollback",
+    async (req: AuthRequest, res, next) => {
+      try {
+        const { kind, version } = versionParamsSchema.parse(req.params);
+        const target = await virusProtocol.versions.get(kind, version);
+        if (target?.redacted) {
+          throw new AppError(
+            409,
+            "Version was redacted by a data erasure and can't be restored"
+          );
+        }
+        const restored = await virusProtocol.rollbackVersion(
+          kind,
+          version,
+          req.user!.id
+        );
+        if (!restored) {
+          throw new AppError(404, "Version not found");
+        }
+        res.json(restored);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
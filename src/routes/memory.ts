@@ -0,0 +1,179 @@
+import { NextFunction, Response, Router } from "express";
+import { z } from "zod";
+import { AuthRequest, auth, requirePermission } from "../middleware/auth.js";
+import { can } from "../services/roles.js";
+import { AppError } from "../middleware/errorHandler.js";
+import { PinLimitError } from "../services/memorySystem.js";
+import { VirusProtocolCore } from "../services/virusProtocol.js";
+
+const memoryTypeSchema = z.enum(["fact", "concept", "pattern"]);
+
+const shortTermQuerySchema = z.object({
+  userId: z.string().optional(),
+  conversationId: z.string().min(1).optional(), // All conversations if omitted
+});
+
+const listQuerySchema = z.object({
+  userId: z.string().optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  type: memoryTypeSchema.optional(),
+  pinned: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+
+const searchQuerySchema = z.object({
+  userId: z.string().optional(),
+  q: z.string().min(1).max(2000),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+const updateSchema = z
+  .object({
+    content: z.string().min(1).max(500).optional(),
+    type: memoryTypeSchema.optional(),
+    importance: z.number().min(0).max(1).optional(),
+  })
+  .strict();
+
+const adminUsersQuerySchema = z.object({
+  cursor: z.string().regex(/^\d+$/).default("0"),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+// Memories belong to the caller; memory:manage_any may target anyone with
+// ?userId=
+const targetUserId = (req: AuthRequest, requested?: string): string => {
+  if (!requested || requested === req.user!.id) return req.user!.id;
+  if (!can(req.user, "memory:manage_any")) {
+    throw new AppError(403, "Not authorized to access these memories");
+  }
+  return requested;
+};
+
+export const createMemoryRouter = (virusProtocol: VirusProtocolCore) => {
+  const router = Router();
+  const memory = virusProtocol.memory;
+
+  router.use(auth);
+
+  // Reading needs only a login; changes need memory:write
+  const writeAccess = requirePermission("memory:write");
+  router.use((req, res, next) =>
+    req.method === "GET" ? next() : writeAccess(req, res, next)
+  );
+
+  // Short-term conversation memory
+  router.get("/short-term", async (req: AuthRequest, res, next) => {
+    try {
+      const query = shortTermQuerySchema.parse(req.query);
+      const userId = targetUserId(req, query.userId);
+      res.json({
+        items: await memory.listShortTerm(userId, query.conversationId),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.delete("/short-term", async (req: AuthRequest, res, next) => {
+    try {
+      const query = shortTermQuerySchema.parse(req.query);
+      const userId = targetUserId(req, query.userId);
+      await memory.clearShortTerm(userId, query.conversationId);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Long-term memory
+  router.get("/long-term", async (req: AuthRequest, res, next) => {
+    try {
+      const query = listQuerySchema.parse(req.query);
+      const userId = targetUserId(req, query.userId);
+      const { items, total } = await memory.listLongTerm(userId, query);
+      res.json({ items, total, offset: query.offset, limit: query.limit });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get("/long-term/search", async (req: AuthRequest, res, next) => {
+    try {
+      const query = searchQuerySchema.parse(req.query);
+      const userId = targetUserId(req, query.userId);
+      const items = await memory.searchLongTerm(userId, query.q, query.limit);
+      res.json({ items });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.patch("/long-term/:id", async (req: AuthRequest, res, next) => {
+    try {
+      const userId = targetUserId(req, req.query.userId as string);
+      const changes = updateSchema.parse(req.body);
+      const updated = await memory.updateLongTerm(
+        userId,
+        req.params.id,
+        changes
+      );
+      if (!updated) throw new AppError(404, "Memory not found");
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  const setPinned =
+    (pinned: boolean) =>
+    async (req: AuthRequest, res: Response, next: NextFunction) => {
+      try {
+        const userId = targetUserId(req, req.query.userId as string);
+        const updated = await memory.updateLongTerm(userId, req.params.id, {
+          pinned,
+        });
+        if (!updated) throw new AppError(404, "Memory not found");
+        res.json(updated);
+      } catch (error) {
+        next(
+          error instanceof PinLimitError
+            ? new AppError(409, error.message)
+            : error
+        );
+      }
+    };
+
+  router.post("/long-term/:id/pin", setPinned(true));
+  router.delete("/long-term/:id/pin", setPinned(false));
+
+  router.delete("/long-term/:id", async (req: AuthRequest, res, next) => {
+    try {
+      const userId = targetUserId(req, req.query.userId as string);
+      const deleted = await memory.deleteLongTerm(userId, req.params.id);
+      if (!deleted) throw new AppError(404, "Memory not found");
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Admin overview across users
+  router.get(
+    "/admin/users",
+    requirePermission("memory:manage_any"),
+    async (req: AuthRequest, res, next) => {
+      try {
+        const query = adminUsersQuerySchema.parse(req.query);
+        res.json(await memory.listMemoryUsers(query.cursor, query.limit));
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
@@ -0,0 +1,99 @@
+import { Response, Router } from "express";
+import { Redis } from "ioredis";
+import { z } from "zod";
+import { AuthRequest, auth, requirePermission } from "../middleware/auth.js";
+import { AppError } from "../middleware/errorHandler.js";
+import { UserDataService } from "../services/userData.js";
+import { VirusProtocolCore } from "../services/virusProtocol.js";
+
+const requestsQuerySchema = z.object({
+  userId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Data subject export and erasure
+export const createPrivacyRouter = (
+  virusProtocol: VirusProtocolCore,
+  redis: Redis
+) => {
+  const router = Router();
+  const userData = new UserDataService(redis, virusProtocol);
+
+  const sendExport = async (res: Response, userId: string, actor: string) => {
+    const archive = await userData.exportUserData(userId, actor);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="virus-protocol-export-${Date.now()}.json"`
+    );
+    res.json(archive);
+  };
+
+  const erase = async (res: Response, userId: string, actor: string) => {
+    const result = await userData.eraseUserData(userId, actor);
+    if (!result) {
+      throw new AppError(409, "An erasure for this user is already running");
+    }
+    res.json(result);
+  };
+
+  router.get("/user/data-export", auth, async (req: AuthRequest, res, next) => {
+    try {
+      await sendExport(res, req.user!.id, "self");
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.delete("/user/data", auth, async (req: AuthRequest, res, next) => {
+    try {
+      await erase(res, req.user!.id, "self");
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get(
+    "/admin/users/:userId/data-export",
+    auth,
+    requirePermission("users:manage"),
+    async (req: AuthRequest, res, next) => {
+      try {
+        await sendExport(res, req.params.userId, req.user!.id);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.delete(
+    "/admin/users/:userId/data",
+    auth,
+    requirePermission("users:manage"),
+    async (req: AuthRequest, res, next) => {
+      try {
+        await erase(res, req.params.userId, req.user!.id);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Audit log of export and erasure requests
+  router.get(
+    "/admin/data-requests",
+    auth,
+    requirePermission("users:manage"),
+    async (req: AuthRequest, res, next) => {
+      try {
+        const requests = await userData.listRequests(
+          requestsQuerySchema.parse(req.query)
+        );
+        res.json(requests);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
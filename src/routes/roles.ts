@@ -0,0 +1,100 @@
+import { Router } from "express";
+import { Redis } from "ioredis";
+import { z } from "zod";
+import { AuthRequest, auth, requirePermission } from "../middleware/auth.js";
+import { AppError } from "../middleware/errorHandler.js";
+import { AuthSessions } from "../services/authSessions.js";
+import { ROLES, RoleStore, permissionsOf } from "../services/roles.js";
+
+const roleSchema = z.enum(ROLES);
+
+const listQuerySchema = z.object({
+  role: roleSchema.optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const grantSchema = z
+  .object({
+    role: roleSchema,
+  })
+  .strict();
+
+// Role grants for wallets. Promotions apply from the holder's next token
+// refresh; demotions end their sessions at once.
+export const createRoleRouter = (redis: Redis) => {
+  const router = Router();
+  const roles = new RoleStore(redis);
+  const sessions = new AuthSessions(redis, roles);
+
+  router.use("/admin/roles", auth, requirePermission("roles:manage"));
+
+  const applyChange = async (
+    userId: string,
+    previous: string,
+    current: string
+  ) => {
+    const lost = permissionsOf(previous).filter(
+      (permission) => !permissionsOf(current).includes(permission)
+    );
+    if (lost.length > 0) {
+      await sessions.revokeUser(userId);
+    }
+  };
+
+  const assertNotSelf = (req: AuthRequest) => {
+    if (req.params.userId === req.user!.id) {
+      throw new AppError(409, "Admins cannot change their own role");
+    }
+  };
+
+  router.get("/admin/roles", async (req: AuthRequest, res, next) => {
+    try {
+      const query = listQuerySchema.parse(req.query);
+      const { items, total } = await roles.list(query);
+      res.json({ items, total, offset: query.offset, limit: query.limit });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get("/admin/roles/:userId", async (req: AuthRequest, res, next) => {
+    try {
+      const role = await roles.roleOf(req.params.userId);
+      res.json({
+        userId: req.params.userId,
+        role,
+        permissions: permissionsOf(role),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.put("/admin/roles/:userId", async (req: AuthRequest, res, next) => {
+    try {
+      assertNotSelf(req);
+      const { role } = grantSchema.parse(req.body);
+      const previous = await roles.grant(req.params.userId, role, req.user!.id);
+      await applyChange(req.params.userId, previous, role);
+      res.json({ userId: req.params.userId, role, previous });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Back to the default role
+  router.delete("/admin/roles/:userId", async (req: AuthRequest, res, next) => {
+    try {
+      assertNotSelf(req);
+      const previous = await roles.revoke(req.params.userId);
+      const role = await roles.roleOf(req.params.userId);
+      await applyChange(req.params.userId, previous, role);
+      res.json({ userId: req.params.userId, role, previous });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+};
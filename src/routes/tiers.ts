@@ -0,0 +1,105 @@
+import { Router } from "express";
+import { Redis } from "ioredis";
+import { z } from "zod";
+import { AuthRequest, auth, requirePermission } from "../middleware/auth.js";
+import { AuthSessions } from "../services/authSessions.js";
+import {
+  DEFAULT_TIER,
+  TIERS,
+  TIER_FEATURES,
+  TierStore,
+  holdingThresholds,
+  tierLimits,
+} from "../services/tiers.js";
+
+const tierSchema = z.enum(TIERS);
+
+const listQuerySchema = z.object({
+  tier: tierSchema.optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const setTierSchema = z
+  .object({
+    tier: tierSchema,
+  })
+  .strict();
+
+// Tiers of wallets: assigned by admins or earned by holding the token.
+// Assignments apply to tokens already issued, not just to the next login.
+export const createTierRouter = (redis: Redis) => {
+  const router = Router();
+  const tiers = new TierStore(redis);
+  const sessions = new AuthSessions(redis, undefined, tiers);
+
+  router.use("/admin/tiers", auth, requirePermission("users:manage"));
+  router.use(
+    "/admin/users/:userId/tier",
+    auth,
+    requirePermission("users:manage")
+  );
+
+  // Configured limits plus the wallets assigned a tier other than the default
+  router.get("/admin/tiers", async (req: AuthRequest, res, next) => {
+    try {
+      const query = listQuerySchema.parse(req.query);
+      const { items, total } = await tiers.list(query);
+      res.json({
+        defaultTier: DEFAULT_TIER,
+        limits: tierLimits(),
+        features: TIER_FEATURES,
+        holdingThresholds: holdingThresholds(),
+        items,
+        total,
+        offset: query.offset,
+        limit: query.limit,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get(
+    "/admin/users/:userId/tier",
+    async (req: AuthRequest, res, next) => {
+      try {
+        const status = await tiers.status(req.params.userId);
+        res.json({
+          userId: req.params.userId,
+          ...status,
+          limits: tierLimits()[status.tier],
+          features: TIER_FEATURES[status.tier],
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.put(
+    "/admin/users/:userId/tier",
+    async (req: AuthRequest, res, next) => {
+      try {
+        const { tier } = setTierSchema.parse(req.body);
+        const previous = await tiers.setTier(
+          req.params.userId,
+          tier,
+          req.user!.id
+        );
+        const effective = await tiers.tierOf(req.params.userId);
+        await sessions.applyTierChange(req.params.userId, effective);
+        res.json({
+          userId: req.params.userId,
+          assigned: tier,
+          previous,
+          tier: effective,
+        });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
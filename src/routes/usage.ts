@@ -0,0 +1,103 @@
+import { Router } from "express";
+import { Redis } from "ioredis";
+import { z } from "zod";
+import { AuthRequest, auth, requirePermission } from "../middleware/auth.js";
+import { TierStore, tierOrDefault } from "../services/tiers.js";
+import { USAGE_GROUPS } from "../services/usageMeter.js";
+import { VirusProtocolCore } from "../services/virusProtocol.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const ownUsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
+});
+
+// Defaults to the last 30 days
+const reportQuerySchema = z
+  .object({
+    groupBy: z.enum(USAGE_GROUPS).default("subsystem"),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    userId: z.string().min(1).optional(),
+    subsystem: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(100),
+  })
+  .transform(({ from, to, ...rest }) => {
+    const end = to || new Date();
+    return {
+      ...rest,
+      to: end,
+      from: from || new Date(end.getTime() - 30 * DAY),
+    };
+  });
+
+// LLM token usage and spend: the caller's own, and reports for operators
+export const createUsageRouter = (
+  virusProtocol: VirusProtocolCore,
+  redis: Redis
+) => {
+  const router = Router();
+  const usage = virusProtocol.usage;
+  const tiers = new TierStore(redis);
+
+  router.use("/admin/usage", auth, requirePermission("stats:read"));
+  router.use(
+    "/admin/users/:userId/usage",
+    auth,
+    requirePermission("stats:read")
+  );
+
+  // Today's quota and the caller's usage per day and per subsystem
+  router.get("/usage", auth, async (req: AuthRequest, res, next) => {
+    try {
+      const { days } = ownUsageQuerySchema.parse(req.query);
+      const userId = req.user!.id;
+      const range = { from: new Date(Date.now() - days * DAY), to: new Date() };
+
+      const [quota, byDay, bySubsystem] = await Promise.all([
+        usage.quotaStatus(userId, tierOrDefault(req.user!.tier)),
+        usage.report({ ...range, userId, groupBy: "day" }),
+        usage.report({ ...range, userId, groupBy: "subsystem" }),
+      ]);
+
+      res.json({
+        quota,
+        days: byDay.items,
+        subsystems: bySubsystem.items,
+        totals: byDay.totals,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get("/admin/usage", async (req: AuthRequest, res, next) => {
+    try {
+      const query = reportQuerySchema.parse(req.query);
+      res.json(await usage.report(query));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get(
+    "/admin/users/:userId/usage",
+    async (req: AuthRequest, res, next) => {
+      try {
+        const { userId: _, ...query } = reportQuerySchema.parse(req.query);
+        const userId = req.params.userId;
+
+        const [quota, report] = await Promise.all([
+          tiers.tierOf(userId).then((tier) => usage.quotaStatus(userId, tier)),
+          usage.report({ ...query, userId }),
+        ]);
+
+        res.json({ userId, quota, ...report });
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
@@ -0,0 +1,124 @@
+// src/services/apiKeys.ts
+import mongoose from "mongoose";
+import { createHash, randomBytes } from "crypto";
+import { ApiKey } from "../models/apiKey.js";
+import { Permission } from "./roles.js";
+
+export interface ApiKeyInput {
+  name: string;
+  permissions: Permission[];
+  tier: string;
+  namespace?: string;
+  expiresAt?: Date;
+}
+
+export interface ApiKeyPrincipal {
+  id: string;
+  permissions: Permission[];
+  tier: string;
+  namespace?: string;
+}
+
+// Fields safe to show; the hash never leaves the service
+const PUBLIC_FIELDS =
+  "name prefix permissions tier namespace createdBy expiresAt lastUsedAt revokedAt createdAt updatedAt";
+
+export class ApiKeys {
+  private readonly KEY_PREFIX = "vp_";
+  private readonly touchInterval = 1000 * 60; // lastUsedAt resolution
+
+  private hash(key: string): string {
+    return createHash("sha256").update(key).digest("hex");
+  }
+
+  // The plain key is returned only here
+  async create(input: ApiKeyInput, createdBy: string) {
+    const key = `${this.KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+    const record = await ApiKey.create({
+      ...input,
+      prefix: key.slice(0, this.KEY_PREFIX.length + 8),
+      keyHash: this.hash(key),
+      createdBy,
+    });
+
+    return { key, apiKey: await this.get(record._id.toString()) };
+  }
+
+  // Resolves a presented key; null when unknown, revoked or expired
+  async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    const record = await ApiKey.findOne({ keyHash: this.hash(key) }).lean();
+    if (!record || record.revokedAt) return null;
+    if (record.expiresAt && record.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    const now = new Date();
+    if (
+      !record.lastUsedAt ||
+      now.getTime() - record.lastUsedAt.getTime() > this.touchInterval
+    ) {
+      await ApiKey.updateOne({ _id: record._id }, { lastUsedAt: now });
+    }
+
+    return {
+      id: record._id.toString(),
+      permissions: record.permissions as Permission[],
+      tier: record.tier,
+      namespace: record.namespace || undefined,
+    };
+  }
+
+  async list(
+    options: { includeRevoked?: boolean; offset?: number; limit?: number } = {}
+  ) {
+    const filter = options.includeRevoked ? {} : { revokedAt: null };
+    const [items, total] = await Promise.all([
+      ApiKey.find(filter)
+        .select(PUBLIC_FIELDS)
+        .sort({ createdAt: -1 })
+        .skip(options.offset || 0)
+        .limit(options.limit || 50)
+        .lean(),
+      ApiKey.countDocuments(filter),
+    ]);
+    return { items, total };
+  }
+
+  async get(id: string) {
+    if (!mongoose.isValidObjectId(id)) return null;
+    return ApiKey.findById(id).select(PUBLIC_FIELDS).lean();
+  }
+
+  async update(id: string, changes: Partial<ApiKeyInput>) {
+    if (!mongoose.isValidObjectId(id)) return null;
+    return ApiKey.findOneAndUpdate(
+      { _id: id, revokedAt: null },
+      { $set: changes },
+      { new: true }
+    )
+      .select(PUBLIC_FIELDS)
+      .lean();
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(id)) return false;
+    const result = await ApiKey.updateOne(
+      { _id: id, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  // Keys outlive the admin who created them; only the reference is removed
+  async exportUser(userId: string) {
+    return ApiKey.find({ createdBy: userId }).select(PUBLIC_FIELDS).lean();
+  }
+
+  async eraseUser(userId: string): Promise<number> {
+    const result = await ApiKey.updateMany(
+      { createdBy: userId },
+      { createdBy: "erased" }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,276 @@
+// src/services/authSessions.ts
+import { Redis } from "ioredis";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import jwt from "jsonwebtoken";
+import { RoleStore } from "./roles.js";
+import { TierStore } from "./tiers.js";
+
+export interface SessionMetadata {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface AuthSession extends SessionMetadata {
+  id: string;
+  userId: string;
+  role: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // Access token lifetime in seconds
+  sessionId: string;
+  tier: string;
+}
+
+export interface AccessClaims {
+  id: string;
+  role: string;
+  sid?: string; // Missing on tokens issued before sessions existed
+  tier?: string;
+  iat?: number;
+  issuedAt?: number; // In ms; iat only has whole seconds
+}
+
+// Login sessions: short-lived JWT access tokens plus opaque refresh tokens
+// that rotate on every use. Refresh tokens are stored hashed; presenting a
+// rotated one again revokes the whole session.
+export class AuthSessions {
+  private readonly redis: Redis;
+  private readonly roles: RoleStore;
+  private readonly tiers: TierStore;
+  private readonly SESSION_PREFIX = "auth:session:";
+  private readonly USER_SESSIONS_PREFIX = "auth:user_sessions:";
+  private readonly REFRESH_PREFIX = "auth:refresh:";
+  private readonly REVOKED_PREFIX = "auth:revoked:";
+  private readonly REVOKED_USER_PREFIX = "auth:revoked_user:";
+  private readonly TIER_OVERRIDE_PREFIX = "auth:tier_override:";
+  private readonly accessTtl = parseInt(
+    process.env.ACCESS_TOKEN_TTL_SECONDS || "900"
+  ); // 15 minutes
+  private readonly refreshTtl = parseInt(
+    process.env.REFRESH_TOKEN_TTL_SECONDS || "2592000"
+  ); // 30 days
+  private readonly legacyTokenTtl = 60 * 60 * 24; // 24h tokens without a session
+
+  constructor(
+    redis: Redis,
+    roles: RoleStore = new RoleStore(redis),
+    tiers: TierStore = new TierStore(redis)
+  ) {
+    this.redis = redis;
+    this.roles = roles;
+    this.tiers = tiers;
+  }
+
+  private hash(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+  }
+
+  async create(
+    userId: string,
+    role: string,
+    metadata: SessionMetadata = {}
+  ): Promise<IssuedTokens> {
+    const sessionId = randomUUID();
+    const now = new Date().toISOString();
+
+    await this.redis
+      .multi()
+      .hset(`${this.SESSION_PREFIX}${sessionId}`, {
+        userId,
+        role,
+        createdAt: now,
+        lastUsedAt: now,
+        ip: metadata.ip || "",
+        userAgent: metadata.userAgent || "",
+      })
+      .expire(`${this.SESSION_PREFIX}${sessionId}`, this.refreshTtl)
+      .sadd(`${this.USER_SESSIONS_PREFIX}${userId}`, sessionId)
+      .exec();
+
+    return this.issue(sessionId, userId, role);
+  }
+
+  // Exchanges a refresh token for a new pair. Returns null for unknown,
+  // expired or revoked tokens.
+  async refresh(
+    refreshToken: string,
+    metadata: SessionMetadata = {}
+  ): Promise<IssuedTokens | null> {
+    const key = `${this.REFRESH_PREFIX}${this.hash(refreshToken)}`;
+    const stored = await this.redis.getdel(key);
+    if (!stored) return null;
+
+    const [state, sessionId] = stored.split(":");
+    if (state === "used") {
+      // A rotated token came back: someone else holds a copy
+      await this.revoke(sessionId);
+      return null;
+    }
+
+    const session = await this.get(sessionId);
+    if (!session) return null;
+
+    // Role changes take effect from the next refresh
+    const role = await this.roles.roleOf(session.userId);
+
+    await this.redis
+      .multi()
+      .set(key, `used:${sessionId}`, "EX", this.refreshTtl)
+      .hset(`${this.SESSION_PREFIX}${sessionId}`, {
+        role,
+        lastUsedAt: new Date().toISOString(),
+        ...(metadata.ip ? { ip: metadata.ip } : {}),
+        ...(metadata.userAgent ? { userAgent: metadata.userAgent } : {}),
+      })
+      .expire(`${this.SESSION_PREFIX}${sessionId}`, this.refreshTtl)
+      .exec();
+
+    return this.issue(sessionId, session.userId, role);
+  }
+
+  private async issue(
+    sessionId: string,
+    userId: string,
+    role: string
+  ): Promise<IssuedTokens> {
+    const refreshToken = randomBytes(32).toString("base64url");
+    await this.redis.set(
+      `${this.REFRESH_PREFIX}${this.hash(refreshToken)}`,
+      `active:${sessionId}`,
+      "EX",
+      this.refreshTtl
+    );
+
+    const tier = await this.tiers.tierOf(userId);
+    const accessToken = jwt.sign(
+      { id: userId, role, sid: sessionId, tier, issuedAt: Date.now() },
+      process.env.JWT_SECRET!,
+      { expiresIn: this.accessTtl, algorithm: "HS256" }
+    );
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: this.accessTtl,
+      sessionId,
+      tier,
+    };
+  }
+
+  async get(sessionId: string): Promise<AuthSession | null> {
+    const data = await this.redis.hgetall(`${this.SESSION_PREFIX}${sessionId}`);
+    if (!data.userId) return null;
+
+    return {
+      id: sessionId,
+      userId: data.userId,
+      role: data.role,
+      createdAt: new Date(data.createdAt),
+      lastUsedAt: new Date(data.lastUsedAt),
+      ip: data.ip || undefined,
+      userAgent: data.userAgent || undefined,
+    };
+  }
+
+  async list(userId: string): Promise<AuthSession[]> {
+    const ids = await this.redis.smembers(
+      `${this.USER_SESSIONS_PREFIX}${userId}`
+    );
+    const sessions = await Promise.all(ids.map((id) => this.get(id)));
+
+    // Drop ids whose session expired on its own
+    const expired = ids.filter((_, index) => !sessions[index]);
+    if (expired.length > 0) {
+      await this.redis.srem(
+        `${this.USER_SESSIONS_PREFIX}${userId}`,
+        ...expired
+      );
+    }
+
+    return sessions
+      .filter((session): session is AuthSession => session !== null)
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime());
+  }
+
+  // Ends a session. Its refresh token stops working at once; access tokens
+  // are rejected through the revocation list until they expire.
+  async revoke(sessionId: string): Promise<boolean> {
+    const session = await this.get(sessionId);
+
+    const pipeline = this.redis
+      .multi()
+      .del(`${this.SESSION_PREFIX}${sessionId}`)
+      .set(`${this.REVOKED_PREFIX}${sessionId}`, "1", "EX", this.accessTtl);
+    if (session) {
+      pipeline.srem(`${this.USER_SESSIONS_PREFIX}${session.userId}`, sessionId);
+    }
+    await pipeline.exec();
+
+    return session !== null;
+  }
+
+  // Ends every session of a user, including tokens issued without one
+  async revokeUser(userId: string): Promise<number> {
+    const ids = await this.redis.smembers(
+      `${this.USER_SESSIONS_PREFIX}${userId}`
+    );
+    await Promise.all(ids.map((id) => this.revoke(id)));
+    await this.redis.set(
+      `${this.REVOKED_USER_PREFIX}${userId}`,
+      Date.now().toString(),
+      "EX",
+      Math.max(this.accessTtl, this.legacyTokenTtl)
+    );
+    return ids.length;
+  }
+
+  async isRevoked(claims: AccessClaims): Promise<boolean> {
+    const [revokedSession, revokedBefore] = await Promise.all([
+      claims.sid
+        ? this.redis.exists(`${this.REVOKED_PREFIX}${claims.sid}`)
+        : Promise.resolve(0),
+      this.redis.get(`${this.REVOKED_USER_PREFIX}${claims.id}`),
+    ]);
+
+    if (revokedSession) return true;
+    if (revokedBefore === null) return false;
+
+    // Compared in ms, so a login right after a revocation isn't caught by
+    // it. Tokens from before issuedAt only have iat, cutoffs from before
+    // ms were stored in seconds.
+    const cutoff = parseInt(revokedBefore);
+    const cutoffMs = cutoff < 1e12 ? cutoff * 1000 + 999 : cutoff;
+    const issuedAt =
+      claims.issuedAt ?? (claims.iat !== undefined ? claims.iat * 1000 : null);
+    return issuedAt !== null && issuedAt <= cutoffMs;
+  }
+
+  // Tokens carry the tier they were issued with. A change applies to
+  // tokens already out there until they have all expired.
+  async applyTierChange(userId: string, tier: string): Promise<void> {
+    await this.redis.set(
+      `${this.TIER_OVERRIDE_PREFIX}${userId}`,
+      tier,
+      "EX",
+      this.accessTtl
+    );
+  }
+
+  async effectiveTier(claims: AccessClaims): Promise<string | undefined> {
+    const override = await this.redis.get(
+      `${this.TIER_OVERRIDE_PREFIX}${claims.id}`
+    );
+    return override ?? claims.tier;
+  }
+
+  async eraseUser(userId: string): Promise<number> {
+    const revoked = await this.revokeUser(userId);
+    await this.redis.del(`${this.USER_SESSIONS_PREFIX}${userId}`);
+    return revoked;
+  }
+}
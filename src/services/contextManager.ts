@@ -1,9 +1,12 @@
 // src/services/contextManager.ts
 import mongoose from "mongoose";
 import { Redis } from "ioredis";
-import { OpenAI } from "openai";
+import { randomUUID } from "crypto";
+import { ContextWindow } from "../models/contextWindow.js";
+import { LlmRegistry } from "../llm/registry.js";
+import { EvolutionHistory, VersionRecord } from "./evolutionHistory.js";
 
-interface ContextSummary {
+export interface ContextSummary {
   summary: string;
   timestamp: Date;
   version: number;
@@ -16,38 +19,192 @@ interface TimeWindow {
   maxInteractions: number;
 }
 
+interface WindowSummary {
+  summary: string;
+  interactionIds: string[];
+  changed: boolean;
+}
+
+// Deletes the refresh lock only while we still hold it
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
 export class ContextManager {
   private readonly redis: Redis;
-  private readonly openai: OpenAI;
+  private readonly llm: LlmRegistry;
+  private readonly history: EvolutionHistory;
   private readonly SUMMARY_KEY = "virus_protocol_context_summary";
+  private readonly PENDING_KEY = "virus_protocol_context_pending"; // New interactions since the last summary
+  private readonly LOCK_KEY = "virus_protocol_context_lock";
+  private readonly lockTime = 1000 * 60 * 2; // 2 minutes
+  private readonly lockWait = 1000 * 60; // Longest wait for another refresh
+  private readonly inflight = new Map<string, Promise<ContextSummary>>();
+  private readonly SUMMARY_TTL = 60 * 60 * 24 * 7; // 7 days; staleness is tracked separately
+  private readonly maxAgeHours = 1; // Refresh at most this late once anything is new
+  private readonly globalRefreshThreshold = parseInt(
+    process.env.CONTEXT_GLOBAL_REFRESH_THRESHOLD || "25"
+  );
+  private readonly userRefreshThreshold = parseInt(
+    process.env.CONTEXT_USER_REFRESH_THRESHOLD || "5"
+  );
   private readonly timeWindows: TimeWindow[] = [
     { hours: 24, maxInteractions: 50 }, // Reduced from 50
     { hours: 168, maxInteractions: 100 }, // Reduced from 100
     { hours: 720, maxInteractions: 200 }, // Reduced from 200
   ];
 
-  constructor(redis: Redis, openai: OpenAI) {
+  constructor(
+    redis: Redis,
+    llm: LlmRegistry,
+    history: EvolutionHistory = new EvolutionHistory()
+  ) {
     this.redis = redis;
-    this.openai = openai;
+    this.llm = llm;
+    this.history = history;
+  }
+
+  private summaryKey(userId?: string): string {
+    return userId ? `${this.SUMMARY_KEY}:user:${userId}` : this.SUMMARY_KEY;
   }
 
-  private async getWindowSummary(window: TimeWindow): Promise<string> {
-    const cutoffDate = new Date();
-    cutoffDate.setHours(cutoffDate.getHours() - window.hours);
+  private pendingKey(userId?: string): string {
+    return userId ? `${this.PENDING_KEY}:user:${userId}` : this.PENDING_KEY;
+  }
+
+  private scope(userId?: string): string {
+    return userId ? `user:${userId}` : "global";
+  }
+
+  // Brings one window's rolling summary up to date. Only interactions past
+  // the stored cursor are summarized and merged in, oldest first and a page
+  // at a time, so the cursor never passes one that wasn't summarized. The
+  // window is rebuilt from its highest-scoring interactions once everything
+  // in the previous rebuild has expired. Personal windows cover all of the
+  // user's interactions in the order they happened, the global one only
+  // higher-value interactions from everyone in the order they were scored.
+  private async updateWindow(
+    window: TimeWindow,
+    userId: string | undefined,
+    rebuild: boolean
+  ): Promise<WindowSummary> {
+    const scope = this.scope(userId);
+    const now = new Date();
+    const cutoffDate = new Date(now.getTime() - window.hours * 60 * 60 * 1000);
+    const Interaction = mongoose.model("Interaction");
+    const fields = "message response evolutionScore timestamp scoredAt"; // Minimized fields
+    const cursorField = userId ? "timestamp" : "scoredAt";
+    const inWindow = {
+      ...(userId ? { userId } : { evolutionScore: { $gt: 0.5 } }), // Only fetch higher-value interactions
+      timestamp: { $gt: cutoffDate },
+    };
+
+    const state = await ContextWindow.findOne({
+      scope,
+      hours: window.hours,
+    }).lean();
+    const full = rebuild || !state || state.rebuiltAt < cutoffDate;
+
+    if (full) {
+      const interactions = await Interaction.find(inWindow)
+        .sort({ evolutionScore: -1 })
+        .limit(window.maxInteractions)
+        .select(fields);
+      const summary =
+        interactions.length > 0
+          ? await this.mergeSummary(window, null, interactions)
+          : "";
+      const interactionIds = interactions.map((i) => i._id.toString());
+
+      // Everything up to now was considered, summarized or not
+      await ContextWindow.updateOne(
+        { scope, hours: window.hours },
+        {
+          $set: { summary, cursor: now, interactionIds, rebuiltAt: now },
+          $unset: { cursorId: 1 },
+        },
+        { upsert: true }
+      );
+      return {
+        summary,
+        interactionIds,
+        changed: summary !== (state?.summary ?? ""),
+      };
+    }
 
-    // Optimized query with field selection and filtering
-    const interactions = await mongoose
-      .model("Interaction")
-      .find({
-        timestamp: { $gte: cutoffDate },
-        evolutionScore: { $gt: 0.5 }, // Only fetch higher-value interactions
+    let summary = state.summary;
+    let cursor =
+      state.cursor && state.cursor > cutoffDate
+        ? { at: state.cursor, id: state.cursorId }
+        : { at: cutoffDate, id: undefined };
+    const interactionIds = new Set(state.interactionIds);
+    let changed = false;
+
+    for (;;) {
+      const page = await Interaction.find({
+        ...inWindow,
+        ...(cursor.id
+          ? {
+              $or: [
+                { [cursorField]: { $gt: cursor.at } },
+                {
+                  [cursorField]: cursor.at,
+                  _id: { $gt: new mongoose.Types.ObjectId(cursor.id) },
+                },
+              ],
+            }
+          : { [cursorField]: { $gt: cursor.at } }),
       })
-      .sort({ evolutionScore: -1 })
-      .limit(window.maxInteractions)
-      .select("message response evolutionScore"); // Minimized fields
+        .sort({ [cursorField]: 1, _id: 1 })
+        .limit(window.maxInteractions)
+        .select(fields);
+      if (page.length === 0) break;
+
+      // Re-scored interactions may already be part of the summary
+      const fresh = page.filter((i) => !interactionIds.has(i._id.toString()));
+      if (fresh.length > 0) {
+        summary = await this.mergeSummary(window, summary, fresh);
+        fresh.forEach((i) => interactionIds.add(i._id.toString()));
+        changed = true;
+      }
 
-    if (interactions.length === 0) return "";
+      const last = page[page.length - 1];
+      cursor = { at: last.get(cursorField), id: last._id.toString() };
 
+      // The cursor is saved after every page, so a failed merge later on
+      // doesn't summarize this one twice
+      await ContextWindow.updateOne(
+        { scope, hours: window.hours },
+        {
+          $set: {
+            summary,
+            cursor: cursor.at,
+            cursorId: cursor.id,
+            interactionIds: [...interactionIds],
+          },
+        }
+      );
+
+      if (page.length < window.maxInteractions) break;
+    }
+
+    return {
+      summary,
+      interactionIds: [...interactionIds],
+      changed,
+    };
+  }
+
+  // Summarizes interactions in chunks and combines them into the window's
+  // summary, or into a new one when there is none yet
+  private async mergeSummary(
+    window: TimeWindow,
+    current: string | null,
+    interactions: any[]
+  ): Promise<string> {
     // Process in smaller chunks
     const CHUNK_SIZE = 5;
     const chunks = this.chunkArray(interactions, CHUNK_SIZE);
@@ -56,29 +213,38 @@ export class ContextManager {
     );
 
     // Combine chunk summaries with limited tokens
-    const completion = await this.openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `Combine these ${window.hours}-hour summaries concisely. Focus on key patterns and insights only.`,
-        },
-        {
-          role: "user",
-          content: chunkSummaries.join("\n"),
-        },
-      ],
-      temperature: 0.7,
-      max_tokens: 500,
-    });
-
-    return completion.choices[0].message.content || "";
+    const completion = await this.llm.for("contextSummary").chat(
+      current === null
+        ? [
+            {
+              role: "system",
+              content: `Combine these ${window.hours}-hour summaries concisely. Focus on key patterns and insights only.`,
+            },
+            {
+              role: "user",
+              content: chunkSummaries.join("\n"),
+            },
+          ]
+        : [
+            {
+              role: "system",
+              content: `Update this ${window.hours}-hour summary with the summaries of new interactions. Keep it concise and focus on key patterns and insights only.`,
+            },
+            {
+              role: "user",
+              content: `Current summary:\n${current}\n\nNew interactions:\n${chunkSummaries.join(
+                "\n"
+              )}`,
+            },
+          ],
+      { temperature: 0.7, maxTokens: 500 }
+    );
+    return completion.content;
   }
 
   private async summarizeInteractionChunk(chunk: any[]): Promise<string> {
-    const completion = await this.openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
+    const completion = await this.llm.for("contextSummary").chat(
+      [
         {
           role: "system",
           content: "Summarize these interactions in 2-3 key points.",
@@ -94,11 +260,10 @@ export class ContextManager {
           ),
         },
       ],
-      temperature: 0.7,
-      max_tokens: 250,
-    });
+      { temperature: 0.7, maxTokens: 250 }
+    );
 
-    return completion.choices[0].message.content || "";
+    return completion.content;
   }
 
   private chunkArray<T>(array: T[], size: number): T[][] {
@@ -107,15 +272,85 @@ export class ContextManager {
     );
   }
 
-  async generateContextSummary(): Promise<ContextSummary> {
-    const summaries = await Promise.all(
-      this.timeWindows.map((window) => this.getWindowSummary(window))
+  // Refreshes a context summary. Concurrent refreshes of the same scope
+  // share one run, in this process and across processes. A rebuild
+  // discards the rolling window summaries, e.g. after an erasure.
+  async generateContextSummary(
+    userId?: string,
+    options: { rebuild?: boolean } = {}
+  ): Promise<ContextSummary> {
+    const scope = this.scope(userId);
+    const running = this.inflight.get(scope);
+    if (running && !options.rebuild) return running;
+
+    const refresh = this.refreshWithLock(userId, !!options.rebuild).finally(
+      () => {
+        if (this.inflight.get(scope) === refresh) this.inflight.delete(scope);
+      }
+    );
+    this.inflight.set(scope, refresh);
+    return refresh;
+  }
+
+  private async refreshWithLock(
+    userId: string | undefined,
+    rebuild: boolean
+  ): Promise<ContextSummary> {
+    const lockKey = `${this.LOCK_KEY}:${this.scope(userId)}`;
+    const token = randomUUID();
+    const deadline = Date.now() + this.lockWait;
+
+    while (!(await this.redis.set(lockKey, token, "PX", this.lockTime, "NX"))) {
+      // Another process is refreshing; its result will do unless we need a
+      // rebuild, which has to run after it. Refreshing without the lock
+      // would duplicate its work and its version, so a wait that runs out
+      // settles for the current summary.
+      if (Date.now() > deadline) {
+        const current = rebuild ? null : await this.getContext(userId);
+        if (current) return current;
+        throw new Error(
+          `Timed out waiting for the ${this.scope(userId)} context refresh`
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      if (!rebuild && !(await this.redis.exists(lockKey))) {
+        const current = await this.getContext(userId);
+        if (current) return current;
+      }
+    }
+
+    try {
+      return await this.refresh(userId, rebuild);
+    } finally {
+      await this.redis.eval(RELEASE_SCRIPT, 1, lockKey, token);
+    }
+  }
+
+  private async refresh(
+    userId: string | undefined,
+    rebuild: boolean
+  ): Promise<ContextSummary> {
+    // Interactions arriving while we summarize count towards the next one
+    const pending = Number(await this.redis.get(this.pendingKey(userId))) || 0;
+
+    const windows = await Promise.all(
+      this.timeWindows.map((window) =>
+        this.updateWindow(window, userId, rebuild)
+      )
     );
 
+    // Nothing new made it into any window: keep the current version
+    const current = await this.getContext(userId);
+    if (!rebuild && current && !windows.some((window) => window.changed)) {
+      await this.clearPending(userId, pending);
+      return current;
+    }
+
+    const summaries = windows.map((window) => window.summary);
+
     // Optimized format prompt
-    const completion = await this.openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
+    const completion = await this.llm.for("contextSummary").chat(
+      [
         {
           role: "system",
           content: `Combine summaries into a concise context. Format:
@@ -128,18 +363,17 @@ INSIGHTS: 2-3 key insights`,
           content: summaries.join("\n"),
         },
       ],
-      temperature: 0.7,
-      max_tokens: 400,
-    });
+      { temperature: 0.7, maxTokens: 400 }
+    );
 
-    const response = completion.choices[0].message.content || "";
+    const response = completion.content;
 
     // Parse with limits
     const summaryMatch = response.match(/SUMMARY: (.*?)(?=\nTOPICS:|$)/s);
     const topicsMatch = response.match(/TOPICS: (.*?)(?=\nINSIGHTS:|$)/);
     const insightsMatch = response.match(/INSIGHTS: (.*?)$/);
 
-    const summary: ContextSummary = {
+    const content = {
       summary: (summaryMatch?.[1] || "").trim().slice(0, 500),
       topics: (topicsMatch?.[1] || "")
         .split("|")
@@ -151,16 +385,84 @@ INSIGHTS: 2-3 key insights`,
         .map((i) => i.trim())
         .filter(Boolean)
         .slice(0, 3), // Limit to 3 insights
+    };
+
+    // Overlapping windows share interactions
+    const interactionIds = [
+      ...new Set(windows.flatMap((window) => window.interactionIds)),
+    ];
+
+    // Only the global context is part of the evolution history
+    const version = userId
+      ? await this.redis.incr(`${this.summaryKey(userId)}:version`)
+      : (await this.history.record("context", content, { interactionIds }))
+          .version;
+
+    const summary: ContextSummary = {
+      ...content,
       timestamp: new Date(),
-      version: await this.getNextVersion(),
+      version,
+    };
+
+    await this.storeSummary(summary, userId);
+    await this.clearPending(userId, pending);
+    return summary;
+  }
+
+  private async clearPending(userId: string | undefined, pending: number) {
+    const left = await this.redis.decrby(this.pendingKey(userId), pending);
+    if (left < 0) {
+      await this.redis.set(this.pendingKey(userId), "0");
+    }
+  }
+
+  // Counts a new interaction towards both the global and the user's refresh
+  // thresholds
+  async recordInteraction(userId: string): Promise<void> {
+    await this.redis
+      .multi()
+      .incr(this.pendingKey())
+      .incr(this.pendingKey(userId))
+      .exec();
+  }
+
+  // Makes an earlier version live again, recorded as a new version
+  async restoreSummary(
+    target: VersionRecord,
+    restoredBy: string
+  ): Promise<ContextSummary> {
+    const content = {
+      summary: target.summary || "",
+      topics: target.topics || [],
+      keyInsights: target.keyInsights || [],
+    };
+    const record = await this.history.record("context", content, {
+      interactionIds: target.interactionIds,
+      restoredFrom: target.version,
+      createdBy: restoredBy,
+    });
+
+    const summary: ContextSummary = {
+      ...content,
+      timestamp: new Date(),
+      version: record.version,
     };
 
     await this.storeSummary(summary);
     return summary;
   }
 
-  private async storeSummary(summary: ContextSummary): Promise<void> {
-    await this.redis.set(this.SUMMARY_KEY, JSON.stringify(summary), "EX", 3600);
+  private async storeSummary(
+    summary: ContextSummary,
+    userId?: string
+  ): Promise<void> {
+    await this.redis.set(
+      this.summaryKey(userId),
+      JSON.stringify(summary),
+      "EX",
+      this.SUMMARY_TTL
+    );
+    if (userId) return;
 
     // Store topics and insights separately for quick access
     if (summary.topics.length > 0) {
@@ -174,28 +476,67 @@ INSIGHTS: 2-3 key insights`,
     }
   }
 
-  private async getNextVersion(): Promise<number> {
-    const version = await this.redis.incr("virus_protocol_context_version");
-    return version;
-  }
-
-  async getContext(): Promise<ContextSummary | null> {
-    const stored = await this.redis.get(this.SUMMARY_KEY);
+  async getContext(userId?: string): Promise<ContextSummary | null> {
+    const stored = await this.redis.get(this.summaryKey(userId));
     if (!stored) {
       return null;
     }
     return JSON.parse(stored);
   }
 
-  async shouldUpdateContext(): Promise<boolean> {
-    const stored = await this.getContext();
-    if (!stored) return true;
+  // Stale once enough new interactions arrived, or once anything new has
+  // waited longer than maxAgeHours
+  async shouldUpdateContext(userId?: string): Promise<boolean> {
+    const [stored, pendingRaw] = await Promise.all([
+      this.getContext(userId),
+      this.redis.get(this.pendingKey(userId)),
+    ]);
+    const pending = Number(pendingRaw) || 0;
+    if (!stored) return !userId || pending > 0;
+
+    const threshold = userId
+      ? this.userRefreshThreshold
+      : this.globalRefreshThreshold;
+    if (pending >= threshold) return true;
 
     const hoursSinceUpdate =
       (new Date().getTime() - new Date(stored.timestamp).getTime()) /
       (1000 * 60 * 60);
 
-    return hoursSinceUpdate >= 1;
+    return pending > 0 && hoursSinceUpdate >= this.maxAgeHours;
+  }
+
+  // A window may paraphrase any interaction it covers, so every scope with
+  // a window covering a deleted interaction is rebuilt from what remains.
+  // Call once the interactions are gone. Returns the number of scopes
+  // rebuilt.
+  async forgetInteractions(interactionIds: string[]): Promise<number> {
+    if (interactionIds.length === 0) return 0;
+
+    const scopes: string[] = await ContextWindow.distinct("scope", {
+      interactionIds: { $in: interactionIds },
+    });
+    await Promise.all(
+      scopes.map((scope) =>
+        this.generateContextSummary(
+          scope === "global" ? undefined : scope.slice("user:".length),
+          { rebuild: true }
+        )
+      )
+    );
+    return scopes.length;
+  }
+
+  async eraseUser(userId: string): Promise<number> {
+    const [keys, windows] = await Promise.all([
+      this.redis.del(
+        this.summaryKey(userId),
+        `${this.summaryKey(userId)}:version`,
+        this.pendingKey(userId)
+      ),
+      ContextWindow.deleteMany({ scope: this.scope(userId) }),
+    ]);
+    return keys + windows.deletedCount;
   }
   // Public Getter
   public get contextWindows(): TimeWindow[] {
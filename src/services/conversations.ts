@@ -0,0 +1,90 @@
+// src/services/conversations.ts
+import mongoose from "mongoose";
+import { Conversation } from "../models/conversation.js";
+
+export interface ConversationUpdate {
+  title?: string;
+  archived?: boolean;
+}
+
+export class Conversations {
+  private readonly maxTitleLength = 80;
+
+  // Untitled conversations are named after their first message
+  titleFrom(message: string): string {
+    const firstLine = message.trim().split("\n")[0].replace(/\s+/g, " ");
+    if (!firstLine) return "New conversation";
+    return firstLine.length > this.maxTitleLength
+      ? `${firstLine.slice(0, this.maxTitleLength - 1)}…`
+      : firstLine;
+  }
+
+  async create(userId: string, title: string) {
+    return Conversation.create({ userId, title });
+  }
+
+  // Only the owner sees a conversation; unknown ids read as missing
+  async get(userId: string, id: string) {
+    if (!mongoose.isValidObjectId(id)) return null;
+    return Conversation.findOne({ _id: id, userId }).lean();
+  }
+
+  // The conversation a new message belongs to, starting one when no id is
+  // given. Returns null for ids that aren't the user's.
+  async resolve(userId: string, message: string, conversationId?: string) {
+    if (!conversationId) {
+      const created = await this.create(userId, this.titleFrom(message));
+      return created.toObject();
+    }
+    return this.get(userId, conversationId);
+  }
+
+  async recordMessage(id: string): Promise<void> {
+    await Conversation.updateOne(
+      { _id: id },
+      { $inc: { messageCount: 1 }, $set: { lastMessageAt: new Date() } }
+    );
+  }
+
+  async list(
+    userId: string,
+    options: { archived?: boolean; offset?: number; limit?: number } = {}
+  ) {
+    const filter = { userId, archived: options.archived ?? false };
+
+    const [items, total] = await Promise.all([
+      Conversation.find(filter)
+        .sort({ lastMessageAt: -1 })
+        .skip(options.offset || 0)
+        .limit(options.limit || 20)
+        .lean(),
+      Conversation.countDocuments(filter),
+    ]);
+
+    return { items, total };
+  }
+
+  async update(userId: string, id: string, changes: ConversationUpdate) {
+    if (!mongoose.isValidObjectId(id)) return null;
+    return Conversation.findOneAndUpdate(
+      { _id: id, userId },
+      { $set: changes },
+      { new: true }
+    ).lean();
+  }
+
+  async remove(userId: string, id: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(id)) return false;
+    const result = await Conversation.deleteOne({ _id: id, userId });
+    return result.deletedCount > 0;
+  }
+
+  async exportUser(userId: string) {
+    return Conversation.find({ userId }).sort({ createdAt: 1 }).lean();
+  }
+
+  async eraseUser(userId: string): Promise<number> {
+    const result = await Conversation.deleteMany({ userId });
+    return result.deletedCount;
+  }
+}
@@ -0,0 +1,47 @@
+// src/services/evolutionChannels.ts
+import WebSocket from "ws";
+import { EvolutionProgress, VirusProtocolCore } from "./virusProtocol.js";
+
+// Per-user WebSocket channels for evolution jobs. Unlike interaction
+// channels they stay open, since jobs are processed long after the
+// interaction itself completes.
+export class EvolutionChannels {
+  private subscribers = new Map<string, Set<WebSocket>>();
+
+  constructor(virusProtocol: VirusProtocolCore) {
+    virusProtocol.on("evolutionProgress", (update: EvolutionProgress) =>
+      this.publish(update)
+    );
+  }
+
+  subscribe(ws: WebSocket, userId: string) {
+    const sockets = this.subscribers.get(userId) || new Set();
+    sockets.add(ws);
+    this.subscribers.set(userId, sockets);
+  }
+
+  unsubscribe(ws: WebSocket, userId: string) {
+    const sockets = this.subscribers.get(userId);
+    if (!sockets) return;
+
+    sockets.delete(ws);
+    if (sockets.size === 0) {
+      this.subscribers.delete(userId);
+    }
+  }
+
+  removeSocket(ws: WebSocket) {
+    for (const userId of [...this.subscribers.keys()]) {
+      this.unsubscribe(ws, userId);
+    }
+  }
+
+  private publish(update: EvolutionProgress) {
+    const sockets = this.subscribers.get(update.userId);
+    sockets?.forEach((ws) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: "evolution", ...update }));
+      }
+    });
+  }
+}
@@ -0,0 +1,194 @@
+// src/services/evolutionHistory.ts
+import { EvolutionVersion } from "../models/evolutionVersion.js";
+
+export type VersionKind = "evolution" | "context";
+
+export interface VersionContent {
+  analysis?: string;
+  summary?: string;
+  topics?: string[];
+  keyInsights?: string[];
+}
+
+export interface VersionRecord extends VersionContent {
+  kind: VersionKind;
+  version: number;
+  interactionIds: string[];
+  restoredFrom?: number;
+  redacted: boolean;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface DiffLine {
+  op: "same" | "added" | "removed";
+  line: string;
+}
+
+// Persists every evolution analysis and context summary so earlier states
+// can be inspected, compared and restored
+export class EvolutionHistory {
+  private readonly maxVersionRetries = 5;
+
+  async record(
+    kind: VersionKind,
+    content: VersionContent,
+    options: {
+      interactionIds?: string[];
+      restoredFrom?: number;
+      createdBy?: string;
+    } = {}
+  ): Promise<VersionRecord> {
+    // Writers in other processes may claim the same number; the unique
+    // index rejects the loser, which retries with the next one
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const created = await EvolutionVersion.create({
+          kind,
+          version: (await this.latestVersion(kind)) + 1,
+          ...content,
+          interactionIds: options.interactionIds || [],
+          restoredFrom: options.restoredFrom,
+          createdBy: options.createdBy,
+        });
+        return this.toRecord(created.toObject());
+      } catch (error: any) {
+        if (error?.code !== 11000 || attempt >= this.maxVersionRetries) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async list(
+    kind: VersionKind,
+    options: { offset?: number; limit?: number } = {}
+  ): Promise<{ versions: VersionRecord[]; total: number }> {
+    const [versions, total] = await Promise.all([
+      EvolutionVersion.find({ kind })
+        .sort({ version: -1 })
+        .skip(options.offset || 0)
+        .limit(options.limit || 20)
+        .lean(),
+      EvolutionVersion.countDocuments({ kind }),
+    ]);
+
+    return { versions: versions.map((v) => this.toRecord(v)), total };
+  }
+
+  async get(kind: VersionKind, version: number): Promise<VersionRecord | null> {
+    const found = await EvolutionVersion.findOne({ kind, version }).lean();
+    return found ? this.toRecord(found) : null;
+  }
+
+  async latest(kind: VersionKind): Promise<VersionRecord | null> {
+    const found = await EvolutionVersion.findOne({ kind })
+      .sort({ version: -1 })
+      .lean();
+    return found ? this.toRecord(found) : null;
+  }
+
+  // The newest version whose text survived erasures
+  async latestIntact(kind: VersionKind): Promise<VersionRecord | null> {
+    const found = await EvolutionVersion.findOne({
+      kind,
+      redacted: { $ne: true },
+    })
+      .sort({ version: -1 })
+      .lean();
+    return found ? this.toRecord(found) : null;
+  }
+
+  // Line diff of two versions, in the order they were given
+  diff(from: VersionRecord, to: VersionRecord): DiffLine[] {
+    const a = this.toLines(from);
+    const b = this.toLines(to);
+
+    // Longest common subsequence table, filled from the end
+    const lcs = Array.from({ length: a.length + 1 }, () =>
+      new Array<number>(b.length + 1).fill(0)
+    );
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] =
+          a[i] === b[j]
+            ? lcs[i + 1][j + 1] + 1
+            : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        lines.push({ op: "same", line: a[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        lines.push({ op: "removed", line: a[i++] });
+      } else {
+        lines.push({ op: "added", line: b[j++] });
+      }
+    }
+    while (i < a.length) lines.push({ op: "removed", line: a[i++] });
+    while (j < b.length) lines.push({ op: "added", line: b[j++] });
+
+    return lines;
+  }
+
+  // Versions derived from erased interactions may quote their users: the
+  // text is removed along with the references, and the version can no
+  // longer be restored. Returns the number of versions redacted.
+  async forgetInteractions(interactionIds: string[]): Promise<number> {
+    if (interactionIds.length === 0) return 0;
+
+    const result = await EvolutionVersion.updateMany(
+      { interactionIds: { $in: interactionIds } },
+      {
+        $set: { redacted: true, topics: [], keyInsights: [] },
+        $unset: { analysis: 1, summary: 1 },
+        $pull: { interactionIds: { $in: interactionIds } },
+      }
+    );
+    return result.modifiedCount;
+  }
+
+  private async latestVersion(kind: VersionKind): Promise<number> {
+    const latest = await EvolutionVersion.findOne({ kind }, { version: 1 })
+      .sort({ version: -1 })
+      .lean();
+    return latest?.version || 0;
+  }
+
+  private toLines(record: VersionRecord): string[] {
+    if (record.kind === "evolution") {
+      return (record.analysis || "")
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean);
+    }
+
+    return [
+      `SUMMARY: ${record.summary || ""}`,
+      ...(record.topics || []).map((topic) => `TOPIC: ${topic}`),
+      ...(record.keyInsights || []).map((insight) => `INSIGHT: ${insight}`),
+    ];
+  }
+
+  private toRecord(doc: any): VersionRecord {
+    return {
+      kind: doc.kind,
+      version: doc.version,
+      analysis: doc.analysis ?? undefined,
+      summary: doc.summary ?? undefined,
+      topics: doc.kind === "context" ? doc.topics : undefined,
+      keyInsights: doc.kind === "context" ? doc.keyInsights : undefined,
+      interactionIds: doc.interactionIds || [],
+      restoredFrom: doc.restoredFrom ?? undefined,
+      redacted: Boolean(doc.redacted),
+      createdBy: doc.createdBy,
+      createdAt: doc.createdAt,
+    };
+  }
+}
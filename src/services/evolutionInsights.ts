@@ -0,0 +1,204 @@
+// src/services/evolutionInsights.ts
+import { z } from "zod";
+import { EvolutionInsight } from "../models/evolutionInsight.js";
+import { EvolutionInsightSource } from "../models/evolutionInsightSource.js";
+
+export type InsightKind = "pattern" | "development" | "recommendation";
+
+const insightItemSchema = z.object({
+  text: z.string(),
+  interactionIds: z.array(z.string()), // Interactions that show this insight
+});
+
+export const evolutionAnalysisSchema = z.object({
+  patterns: z.array(insightItemSchema),
+  developments: z.array(insightItemSchema),
+  recommendations: z.array(insightItemSchema),
+});
+
+export type EvolutionAnalysis = z.infer<typeof evolutionAnalysisSchema>;
+
+const SECTIONS: [keyof EvolutionAnalysis, InsightKind, string][] = [
+  ["patterns", "pattern", "PATTERNS"],
+  ["developments", "development", "DEVELOPMENT"],
+  ["recommendations", "recommendation", "RECOMMENDATIONS"],
+];
+
+export class EvolutionInsights {
+  private readonly maxSources = 100; // Most recent sources kept on the insight
+  private readonly maxTextLength = 300;
+
+  // Merges an analysis into the insight records. Items without valid
+  // attribution are credited to the whole batch.
+  async record(analysis: EvolutionAnalysis, interactionIds: string[]) {
+    const batch = new Set(interactionIds);
+    const now = new Date();
+
+    // Items repeated within one analysis count once
+    const merged = new Map<
+      string,
+      { kind: InsightKind; key: string; text: string; sources: Set<string> }
+    >();
+    SECTIONS.forEach(([section, kind]) =>
+      analysis[section].forEach((item) => {
+        const text = this.clean(item.text);
+        const key = this.normalize(text);
+        if (!key) return;
+
+        const attributed = item.interactionIds.filter((id) => batch.has(id));
+        const entry = merged.get(`${kind}:${key}`) || {
+          kind,
+          key,
+          text,
+          sources: new Set<string>(),
+        };
+        (attributed.length > 0 ? attributed : interactionIds).forEach((id) =>
+          entry.sources.add(id)
+        );
+        merged.set(`${kind}:${key}`, entry);
+      })
+    );
+
+    const operations = [...merged.values()].map((entry) => ({
+      updateOne: {
+        filter: { kind: entry.kind, key: entry.key },
+        update: {
+          $setOnInsert: { firstSeen: now },
+          $set: { text: entry.text, lastSeen: now },
+          $inc: { frequency: 1 },
+          $push: {
+            sourceInteractions: {
+              $each: [...entry.sources],
+              $slice: -this.maxSources,
+            },
+          },
+        },
+        upsert: true,
+      },
+    }));
+
+    // Full provenance, for erasure
+    const sources = [...merged.values()].flatMap((entry) =>
+      [...entry.sources].map((interactionId) => ({
+        updateOne: {
+          filter: { kind: entry.kind, key: entry.key, interactionId },
+          update: { $setOnInsert: { recordedAt: now } },
+          upsert: true,
+        },
+      }))
+    );
+
+    if (operations.length > 0) {
+      await EvolutionInsight.bulkWrite(operations, { ordered: false });
+      await EvolutionInsightSource.bulkWrite(sources, { ordered: false });
+    }
+  }
+
+  async list(
+    options: {
+      kind?: InsightKind;
+      sort?: "frequency" | "lastSeen";
+      offset?: number;
+      limit?: number;
+    } = {}
+  ) {
+    const filter = options.kind ? { kind: options.kind } : {};
+    const sort: Record<string, 1 | -1> =
+      options.sort === "lastSeen"
+        ? { lastSeen: -1 }
+        : { frequency: -1, lastSeen: -1 };
+
+    const [items, total] = await Promise.all([
+      EvolutionInsight.find(filter)
+        .sort(sort)
+        .skip(options.offset || 0)
+        .limit(options.limit || 20)
+        .lean(),
+      EvolutionInsight.countDocuments(filter),
+    ]);
+
+    return { items, total };
+  }
+
+  async get(id: string) {
+    return EvolutionInsight.findById(id).lean();
+  }
+
+  // Condensed view for the system prompt: recurring patterns first, then
+  // the latest developments and recommendations
+  async promptSummary(): Promise<string> {
+    const [patterns, developments, recommendations] = await Promise.all([
+      this.list({ kind: "pattern", limit: 5 }),
+      this.list({ kind: "development", sort: "lastSeen", limit: 3 }),
+      this.list({ kind: "recommendation", sort: "lastSeen", limit: 3 }),
+    ]);
+
+    const lines = [
+      ["Recurring patterns", patterns.items],
+      ["Recent developments", developments.items],
+      ["Current recommendations", recommendations.items],
+    ]
+      .filter(([, items]) => items.length > 0)
+      .map(
+        ([label, items]) =>
+          `${label}: ${(items as { text: string; frequency: number }[])
+            .map((item) => `${item.text} (seen ${item.frequency}x)`)
+            .join(" | ")}`
+      );
+
+    return lines.length > 0 ? lines.join("\n") : "No evolution insights yet";
+  }
+
+  // Text form kept in the evolution state and version history
+  format(analysis: EvolutionAnalysis): string {
+    return SECTIONS.map(
+      ([section, , label]) =>
+        `${label}: ${analysis[section]
+          .map((item) => this.clean(item.text))
+          .filter(Boolean)
+          .join(" | ")}`
+    ).join("\n");
+  }
+
+  // Insight text may paraphrase any of its sources, so insights drawn from
+  // erased interactions are deleted, found through their full provenance
+  // as well as their latest sources. Returns the number deleted.
+  async forgetInteractions(interactionIds: string[]): Promise<number> {
+    if (interactionIds.length === 0) return 0;
+
+    const sources = await EvolutionInsightSource.find({
+      interactionId: { $in: interactionIds },
+    })
+      .select("kind key")
+      .lean();
+    const insights = (
+      await EvolutionInsight.find({
+        $or: [
+          { sourceInteractions: { $in: interactionIds } },
+          ...sources.map(({ kind, key }) => ({ kind, key })),
+        ],
+      })
+        .select("kind key")
+        .lean()
+    ).map(({ kind, key }) => ({ kind, key }));
+    if (insights.length === 0) return 0;
+
+    const [result] = await Promise.all([
+      EvolutionInsight.deleteMany({ $or: insights }),
+      EvolutionInsightSource.deleteMany({ $or: insights }),
+    ]);
+    return result.deletedCount;
+  }
+
+  private clean(text: string): string {
+    return text.replace(/\s+/g, " ").trim().slice(0, this.maxTextLength);
+  }
+
+  private normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, "")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+}
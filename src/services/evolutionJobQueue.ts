@@ -0,0 +1,306 @@
+// src/services/evolutionJobQueue.ts
+
+import { Redis } from "ioredis";
+import { Interaction } from "../models/interaction.js";
+
+const READY_KEY = "evolution_queue"; // Producers LPUSH, consumers take from the tail
+const PROCESSING_KEY = "evolution_queue:processing";
+const LEASES_KEY = "evolution_queue:leases"; // id -> lease expiry (ms)
+const DELAYED_KEY = "evolution_queue:delayed"; // zset scored by retry time
+const DEAD_KEY = "evolution_queue:dead";
+const ERRORS_KEY = "evolution_queue:errors"; // id -> last failure message
+const PAUSED_KEY = "evolution_queue:paused"; // Set while consumers should idle
+
+// Moves up to ARGV[1] ids from the ready list into the in-flight list and
+// leases them in one step, so a crash can never drop a reserved id
+const RESERVE_SCRIPT = `
+local ids = {}
+for i = 1, tonumber(ARGV[1]) do
+  local id = redis.call('RPOPLPUSH', KEYS[1], KEYS[2])
+  if not id then break end
+  redis.call('HSET', KEYS[3], id, ARGV[2])
+  ids[#ids + 1] = id
+end
+return ids
+`;
+
+// Returns in-flight ids whose lease has lapsed (or was never written) to
+// the consuming end of the ready list
+const RECLAIM_SCRIPT = `
+local ids = redis.call('LRANGE', KEYS[2], 0, -1)
+local reclaimed = 0
+for _, id in ipairs(ids) do
+  local lease = redis.call('HGET', KEYS[3], id)
+  if not lease or tonumber(lease) < tonumber(ARGV[1]) then
+    redis.call('LREM', KEYS[2], 0, id)
+    redis.call('HDEL', KEYS[3], id)
+    redis.call('RPUSH', KEYS[1], id)
+    reclaimed = reclaimed + 1
+  end
+end
+return reclaimed
+`;
+
+const PROMOTE_SCRIPT = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+for _, id in ipairs(ids) do
+  redis.call('ZREM', KEYS[2], id)
+  redis.call('RPUSH', KEYS[1], id)
+end
+return #ids
+`;
+
+export interface EvolutionQueueStats {
+  ready: number;
+  processing: number;
+  delayed: number;
+  dead: number;
+}
+
+export interface DeadLetter {
+  interactionId: string;
+  error: string | null;
+}
+
+export interface FailureOutcome {
+  retried: string[];
+  deadLettered: string[];
+}
+
+export class EvolutionJobQueue {
+  private redis: Redis;
+  private maxAttempts = 3; // Matches Interaction.findUnprocessed
+  private baseBackoff = 1000 * 30; // 30 seconds, doubled per attempt
+  private maxBackoff = 1000 * 60 * 60; // 1 hour
+  private leaseTime = 1000 * 60 * 10; // 10 minutes per reserved batch
+  private reconcileLimit = 1000;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  async enqueue(interactionId: string) {
+    await this.redis.lpush(READY_KEY, interactionId);
+  }
+
+  // Reserves a batch and records the attempt against each interaction
+  async reserve(count: number): Promise<string[]> {
+    const ids = (await this.redis.eval(
+      RESERVE_SCRIPT,
+      3,
+      READY_KEY,
+      PROCESSING_KEY,
+      LEASES_KEY,
+      count,
+      Date.now() + this.leaseTime
+    )) as string[];
+
+    if (ids.length > 0) {
+      await Interaction.updateMany(
+        { _id: { $in: ids } },
+        {
+          $inc: { processingAttempts: 1 },
+          $set: { lastProcessingAttempt: new Date() },
+        }
+      );
+    }
+
+    return ids;
+  }
+
+  async ack(interactionIds: string[]) {
+    if (interactionIds.length === 0) return;
+
+    await this.release(interactionIds);
+    await Interaction.updateMany(
+      { _id: { $in: interactionIds } },
+      { $set: { processed: true } }
+    );
+  }
+
+  // Schedules a retry with exponential backoff, or dead-letters items that
+  // have used up their attempts
+  async fail(
+    interactionIds: string[],
+    error: unknown
+  ): Promise<FailureOutcome> {
+    const outcome: FailureOutcome = { retried: [], deadLettered: [] };
+    if (interactionIds.length === 0) return outcome;
+
+    const message = error instanceof Error ? error.message : String(error);
+    const interactions = await Interaction.find(
+      { _id: { $in: interactionIds } },
+      { processingAttempts: 1 }
+    ).lean();
+    const attempts = new Map(
+      interactions.map((i) => [i._id.toString(), i.processingAttempts || 0])
+    );
+
+    const pipeline = this.redis.multi();
+    interactionIds.forEach((id) => {
+      pipeline.lrem(PROCESSING_KEY, 0, id);
+      pipeline.hdel(LEASES_KEY, id);
+      pipeline.hset(ERRORS_KEY, id, message);
+
+      // Interactions erased mid-flight have nothing left to retry
+      if (!attempts.has(id)) return;
+
+      const attempt = attempts.get(id)!;
+      if (attempt >= this.maxAttempts) {
+        pipeline.lpush(DEAD_KEY, id);
+        outcome.deadLettered.push(id);
+      } else {
+        pipeline.zadd(DELAYED_KEY, Date.now() + this.backoff(attempt), id);
+        outcome.retried.push(id);
+      }
+    });
+    await pipeline.exec();
+
+    return outcome;
+  }
+
+  // Housekeeping run before each processing pass
+  async recover(): Promise<{ reclaimed: number; promoted: number }> {
+    const now = Date.now();
+    const reclaimed = (await this.redis.eval(
+      RECLAIM_SCRIPT,
+      3,
+      READY_KEY,
+      PROCESSING_KEY,
+      LEASES_KEY,
+      now
+    )) as number;
+    const promoted = (await this.redis.eval(
+      PROMOTE_SCRIPT,
+      2,
+      READY_KEY,
+      DELAYED_KEY,
+      now
+    )) as number;
+
+    return { reclaimed, promoted };
+  }
+
+  // Re-enqueues unprocessed interactions that Redis no longer knows about,
+  // e.g. after a Redis flush or a crash before the original LPUSH
+  async reconcile(): Promise<string[]> {
+    const [ready, processing, delayed, dead] = await Promise.all([
+      this.redis.lrange(READY_KEY, 0, -1),
+      this.redis.lrange(PROCESSING_KEY, 0, -1),
+      this.redis.zrange(DELAYED_KEY, 0, -1),
+      this.redis.lrange(DEAD_KEY, 0, -1),
+    ]);
+    const known = new Set([...ready, ...processing, ...delayed, ...dead]);
+
+    const unprocessed = await Interaction.findUnprocessed(
+      this.reconcileLimit
+    ).select("_id");
+    const missing = unprocessed
+      .map((interaction) => interaction._id.toString())
+      .filter((id) => !known.has(id));
+
+    if (missing.length > 0) {
+      await this.redis.rpush(READY_KEY, ...missing);
+    }
+
+    return missing;
+  }
+
+  async stats(): Promise<EvolutionQueueStats> {
+    const [ready, processing, delayed, dead] = await Promise.all([
+      this.redis.llen(READY_KEY),
+      this.redis.llen(PROCESSING_KEY),
+      this.redis.zcard(DELAYED_KEY),
+      this.redis.llen(DEAD_KEY),
+    ]);
+
+    return { ready, processing, delayed, dead };
+  }
+
+  async pause() {
+    await this.redis.set(PAUSED_KEY, Date.now().toString());
+  }
+
+  async resume() {
+    await this.redis.del(PAUSED_KEY);
+  }
+
+  async isPaused(): Promise<boolean> {
+    return (await this.redis.exists(PAUSED_KEY)) === 1;
+  }
+
+  async pendingCount(): Promise<number> {
+    const { ready, processing, delayed } = await this.stats();
+    return ready + processing + delayed;
+  }
+
+  async listDeadLetters(offset = 0, limit = 50): Promise<DeadLetter[]> {
+    const ids = await this.redis.lrange(DEAD_KEY, offset, offset + limit - 1);
+    if (ids.length === 0) return [];
+
+    const errors = await this.redis.hmget(ERRORS_KEY, ...ids);
+    return ids.map((interactionId, i) => ({
+      interactionId,
+      error: errors[i],
+    }));
+  }
+
+  // Gives dead-lettered interactions a fresh set of attempts
+  async requeueDeadLetters(interactionIds?: string[]): Promise<string[]> {
+    const ids = interactionIds || (await this.redis.lrange(DEAD_KEY, 0, -1));
+    if (ids.length === 0) return [];
+
+    const pipeline = this.redis.multi();
+    ids.forEach((id) => pipeline.lrem(DEAD_KEY, 0, id));
+    const results = (await pipeline.exec()) || [];
+    const requeued = ids.filter((_, i) => Number(results[i]?.[1]) > 0);
+    if (requeued.length === 0) return [];
+
+    await Interaction.updateMany(
+      { _id: { $in: requeued } },
+      { $set: { processingAttempts: 0 }, $unset: { lastProcessingAttempt: 1 } }
+    );
+    await this.redis
+      .multi()
+      .hdel(ERRORS_KEY, ...requeued)
+      .rpush(READY_KEY, ...requeued)
+      .exec();
+
+    return requeued;
+  }
+
+  // Drops interactions from every stage of the queue
+  async remove(interactionIds: string[]): Promise<number> {
+    if (interactionIds.length === 0) return 0;
+
+    const pipeline = this.redis.multi();
+    interactionIds.forEach((id) => {
+      pipeline.lrem(READY_KEY, 0, id);
+      pipeline.lrem(PROCESSING_KEY, 0, id);
+      pipeline.zrem(DELAYED_KEY, id);
+      pipeline.lrem(DEAD_KEY, 0, id);
+      pipeline.hdel(LEASES_KEY, id);
+      pipeline.hdel(ERRORS_KEY, id);
+    });
+    const results = (await pipeline.exec()) || [];
+
+    // Count hits on the queue stages only, not the bookkeeping hashes
+    return results
+      .filter((_, i) => i % 6 < 4)
+      .reduce((sum, [, removed]) => sum + Number(removed || 0), 0);
+  }
+
+  private async release(interactionIds: string[]) {
+    const pipeline = this.redis.multi();
+    interactionIds.forEach((id) => {
+      pipeline.lrem(PROCESSING_KEY, 0, id);
+      pipeline.hdel(LEASES_KEY, id);
+      pipeline.hdel(ERRORS_KEY, id);
+    });
+    await pipeline.exec();
+  }
+
+  private backoff(attempt: number): number {
+    return Math.min(this.baseBackoff * 2 ** (attempt - 1), this.maxBackoff);
+  }
+}
@@ -0,0 +1,234 @@
+// src/services/evolutionScorer.ts
+import { Redis } from "ioredis";
+import { z } from "zod";
+import { LlmRegistry } from "../llm/registry.js";
+import { cosineSimilarity } from "../vector/similarity.js";
+
+export interface EvolutionFactors {
+  novelty: number;
+  complexity: number;
+  contextAlignment: number;
+  knowledgeIntegration: number;
+  embeddingNovelty: number; // 1 - closest similarity to recent interactions
+  responseLength: number; // Log-scaled word count
+}
+
+export type FactorWeights = Record<keyof EvolutionFactors, number>;
+
+export interface EvolutionScore {
+  score: number;
+  factors: Partial<EvolutionFactors>; // Missing factors could not be scored
+}
+
+// Ranges are enforced after the call; strict JSON schema mode rejects
+// numeric bounds
+const modelFactorsSchema = z.object({
+  novelty: z.number(),
+  complexity: z.number(),
+  contextAlignment: z.number(),
+  knowledgeIntegration: z.number(),
+});
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+export const factorWeightsSchema = z
+  .object({
+    novelty: z.number().min(0),
+    complexity: z.number().min(0),
+    contextAlignment: z.number().min(0),
+    knowledgeIntegration: z.number().min(0),
+    embeddingNovelty: z.number().min(0),
+    responseLength: z.number().min(0),
+  })
+  .strict();
+
+const DEFAULT_WEIGHTS: FactorWeights = {
+  novelty: 0.2,
+  complexity: 0.2,
+  contextAlignment: 0.2,
+  knowledgeIntegration: 0.2,
+  embeddingNovelty: 0.1,
+  responseLength: 0.1,
+};
+
+// Scores interactions from model-judged factors plus cheap local signals.
+// Factors are kept on the interaction so scores can be recombined whenever
+// the weights change.
+export class EvolutionScorer {
+  private readonly redis: Redis;
+  private readonly llm: LlmRegistry;
+  private readonly WEIGHTS_KEY = "evolution:score_weights";
+  private readonly RECENT_KEY = "evolution:recent_embeddings";
+  private readonly recentLimit = 50;
+  private readonly fullLengthWords = 400; // Word count that scores 1
+
+  constructor(redis: Redis, llm: LlmRegistry) {
+    this.redis = redis;
+    this.llm = llm;
+  }
+
+  async score(
+    message: string,
+    response: string,
+    context: string,
+    options: { interactionId?: string; updateBaseline?: boolean } = {}
+  ): Promise<EvolutionScore> {
+    const [modelFactors, embeddingNovelty, weights] = await Promise.all([
+      this.modelFactors(message, response, context),
+      this.embeddingNovelty(message, response, options),
+      this.getWeights(),
+    ]);
+
+    const factors: Partial<EvolutionFactors> = {
+      ...modelFactors,
+      embeddingNovelty,
+      responseLength: this.responseLength(response),
+    };
+
+    return { score: this.combine(factors, weights), factors };
+  }
+
+  // Weighted mean over the factors that were scored
+  combine(factors: Partial<EvolutionFactors>, weights: FactorWeights): number {
+    let total = 0;
+    let weightSum = 0;
+
+    for (const [name, weight] of Object.entries(weights)) {
+      const value = factors[name as keyof EvolutionFactors];
+      if (value === undefined || weight === 0) continue;
+      total += value * weight;
+      weightSum += weight;
+    }
+
+    return weightSum > 0 ? clamp(total / weightSum) : 0.5;
+  }
+
+  async getWeights(): Promise<FactorWeights> {
+    const stored = await this.redis.hgetall(this.WEIGHTS_KEY);
+    const weights = { ...DEFAULT_WEIGHTS };
+
+    for (const name of Object.keys(weights) as (keyof FactorWeights)[]) {
+      const value = parseFloat(stored[name]);
+      if (!isNaN(value)) weights[name] = value;
+    }
+
+    return weights;
+  }
+
+  async setWeights(weights: Partial<FactorWeights>): Promise<FactorWeights> {
+    const entries = Object.entries(weights).filter(
+      ([, value]) => value !== undefined
+    );
+    if (entries.length > 0) {
+      await this.redis.hset(
+        this.WEIGHTS_KEY,
+        Object.fromEntries(entries.map(([name, value]) => [name, `${value}`]))
+      );
+    }
+    return this.getWeights();
+  }
+
+  async resetWeights(): Promise<FactorWeights> {
+    await this.redis.del(this.WEIGHTS_KEY);
+    return { ...DEFAULT_WEIGHTS };
+  }
+
+  // Drops erased interactions from the novelty baseline
+  async forgetInteractions(interactionIds: string[]): Promise<number> {
+    if (interactionIds.length === 0) return 0;
+
+    const erased = new Set(interactionIds);
+    const entries = await this.redis.lrange(this.RECENT_KEY, 0, -1);
+    const doomed = entries.filter((entry) => erased.has(JSON.parse(entry).id));
+
+    const pipeline = this.redis.pipeline();
+    doomed.forEach((entry) => pipeline.lrem(this.RECENT_KEY, 0, entry));
+    await pipeline.exec();
+    return doomed.length;
+  }
+
+  private async modelFactors(
+    message: string,
+    response: string,
+    context: string
+  ): Promise<Partial<EvolutionFactors>> {
+    try {
+      const factors = await this.llm.for("evolutionScore").structured(
+        [
+          {
+            role: "system",
+            content: `Score this interaction's evolutionary value. Rate each factor from 0 to 1:
+            - novelty: How unique is this interaction?
+            - complexity: How sophisticated is the exchange?
+            - contextAlignment: How well does it align with the current context:
+              ${context}
+            - knowledgeIntegration: How well does it build on existing knowledge?`,
+          },
+          {
+            role: "user",
+            content: `Message: ${message}\nResponse: ${response}`,
+          },
+        ],
+        modelFactorsSchema,
+        "evolution_factors",
+        { temperature: 0.3 }
+      );
+
+      return {
+        novelty: clamp(factors.novelty),
+        complexity: clamp(factors.complexity),
+        contextAlignment: clamp(factors.contextAlignment),
+        knowledgeIntegration: clamp(factors.knowledgeIntegration),
+      };
+    } catch (error) {
+      // Local signals still give a usable score
+      console.error("Error scoring evolution factors:", error);
+      return {};
+    }
+  }
+
+  // Compares against recently scored interactions. Only live scoring
+  // extends the baseline; re-scoring leaves it alone.
+  private async embeddingNovelty(
+    message: string,
+    response: string,
+    {
+      interactionId,
+      updateBaseline,
+    }: { interactionId?: string; updateBaseline?: boolean }
+  ): Promise<number | undefined> {
+    try {
+      const [vector] = await this.llm
+        .for("embedding")
+        .embed([`${message}\n${response}`]);
+      const recent = (await this.redis.lrange(this.RECENT_KEY, 0, -1))
+        .map((entry) => JSON.parse(entry) as { id: string; vector: number[] })
+        .filter((entry) => entry.id !== interactionId);
+
+      if (interactionId && updateBaseline) {
+        await this.redis
+          .multi()
+          .lpush(this.RECENT_KEY, JSON.stringify({ id: interactionId, vector }))
+          .ltrim(this.RECENT_KEY, 0, this.recentLimit - 1)
+          .exec();
+      }
+
+      if (recent.length === 0) return 1;
+      const closest = Math.max(
+        ...recent.map((entry) => cosineSimilarity(vector, entry.vector))
+      );
+      return clamp(1 - closest);
+    } catch (error) {
+      console.error("Error computing embedding novelty:", error);
+      return undefined;
+    }
+  }
+
+  private responseLength(response: string): number {
+    const words = response.split(/\s+/).filter(Boolean).length;
+    return Math.min(
+      1,
+      Math.log10(1 + words) / Math.log10(1 + this.fullLengthWords)
+    );
+  }
+}
@@ -0,0 +1,130 @@
+// src/services/evolutionWorker.ts
+
+import { Redis } from "ioredis";
+import { randomUUID } from "crypto";
+import { EvolutionProgress, VirusProtocolCore } from "./virusProtocol.js";
+import { LoadBalancer } from "../middleware/loadBalancer.js";
+
+// Job progress published by workers and relayed to WebSocket clients by the
+// API servers
+export const EVOLUTION_PROGRESS_CHANNEL = "evolution:progress";
+
+const LOCK_KEY = "evolution_worker:lock";
+const LAST_RUN_KEY = "evolution_worker:last_run";
+
+// Deletes the lock only while we still hold it
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+interface EvolutionWorkerOptions {
+  pollInterval?: number; // How often the queue is checked
+  runInterval?: number; // Maximum time between runs while work is queued
+  threshold?: number; // Queue length that triggers a run immediately
+}
+
+export class EvolutionWorker {
+  private redis: Redis;
+  private virusProtocol: VirusProtocolCore;
+  private loadBalancer: LoadBalancer;
+  private pollInterval: number;
+  private runInterval: number;
+  private threshold: number;
+  private lockTime = 1000 * 60 * 10; // Outlives a full processing pass
+  private token = randomUUID();
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+
+  constructor(
+    redis: Redis,
+    virusProtocol: VirusProtocolCore,
+    loadBalancer: LoadBalancer,
+    options: EvolutionWorkerOptions = {}
+  ) {
+    this.redis = redis;
+    this.virusProtocol = virusProtocol;
+    this.loadBalancer = loadBalancer;
+    this.pollInterval = options.pollInterval || 1000 * 5; // 5 seconds
+    this.runInterval = options.runInterval || 1000 * 60; // 1 minute
+    this.threshold = options.threshold || 20;
+
+    this.virusProtocol.on("evolutionProgress", (update: EvolutionProgress) =>
+      this.redis
+        .publish(EVOLUTION_PROGRESS_CHANNEL, JSON.stringify(update))
+        .catch((error) =>
+          console.error("Error publishing evolution progress:", error)
+        )
+    );
+  }
+
+  async start() {
+    // Reconcile once, under the lock, so concurrent workers don't both
+    // re-enqueue the same interactions
+    await this.withLock(() => this.virusProtocol.reconcileEvolutionQueue());
+
+    this.timer = setInterval(() => {
+      if (!this.running) {
+        this.running = this.tick().finally(() => {
+          this.running = null;
+        });
+      }
+    }, this.pollInterval);
+  }
+
+  async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    // Let the current batch finish; its items stay leased until acked
+    this.virusProtocol.stopProcessing();
+    await this.running;
+  }
+
+  private async tick() {
+    try {
+      const status = await this.virusProtocol.getQueueStatus();
+      if (status.paused || status.queueLength === 0) return;
+
+      const lastRun = Number(await this.redis.get(LAST_RUN_KEY)) || 0;
+      const due =
+        status.queueLength >= this.threshold ||
+        Date.now() - lastRun >= this.runInterval;
+      if (!due || !(await this.loadBalancer.canProcessJob())) return;
+
+      await this.withLock(async () => {
+        await this.redis.set(LAST_RUN_KEY, Date.now().toString());
+
+        this.loadBalancer.emit("newJob");
+        try {
+          await this.virusProtocol.processEvolutionQueue();
+        } finally {
+          this.loadBalancer.emit("jobComplete");
+        }
+      });
+    } catch (error) {
+      console.error("Evolution worker error:", error);
+    }
+  }
+
+  private async withLock<T>(fn: () => Promise<T>): Promise<T | null> {
+    const acquired = await this.redis.set(
+      LOCK_KEY,
+      this.token,
+      "PX",
+      this.lockTime,
+      "NX"
+    );
+    if (!acquired) return null;
+
+    try {
+      return await fn();
+    } finally {
+      await this.redis.eval(RELEASE_SCRIPT, 1, LOCK_KEY, this.token);
+    }
+  }
+}
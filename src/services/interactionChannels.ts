@@ -0,0 +1,65 @@
+// src/services/interactionChannels.ts
+import WebSocket from "ws";
+import { StreamFrame, VirusProtocolCore } from "./virusProtocol.js";
+
+// Per-interaction WebSocket channels. Sockets subscribe to an interaction id
+// and receive its stream frames until it is stored or fails.
+export class InteractionChannels {
+  private subscribers = new Map<string, Set<WebSocket>>();
+  private owners = new Map<string, string>();
+
+  constructor(virusProtocol: VirusProtocolCore) {
+    virusProtocol.on("interactionFrame", (frame: StreamFrame) =>
+      this.publish(frame)
+    );
+  }
+
+  subscribe(ws: WebSocket, interactionId: string, userId: string): boolean {
+    // Only the owner of a running interaction may watch it
+    if (this.owners.get(interactionId) !== userId) {
+      return false;
+    }
+
+    const sockets = this.subscribers.get(interactionId) || new Set();
+    sockets.add(ws);
+    this.subscribers.set(interactionId, sockets);
+    return true;
+  }
+
+  unsubscribe(ws: WebSocket, interactionId: string) {
+    const sockets = this.subscribers.get(interactionId);
+    if (!sockets) return;
+
+    sockets.delete(ws);
+    if (sockets.size === 0) {
+      this.subscribers.delete(interactionId);
+    }
+  }
+
+  removeSocket(ws: WebSocket) {
+    for (const interactionId of [...this.subscribers.keys()]) {
+      this.unsubscribe(ws, interactionId);
+    }
+  }
+
+  private publish(frame: StreamFrame) {
+    if (frame.type === "start") {
+      this.owners.set(frame.interactionId, frame.userId);
+    }
+
+    const sockets = this.subscribers.get(frame.interactionId);
+    sockets?.forEach((ws) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(frame));
+      }
+    });
+
+    if (
+      frame.type === "progress" &&
+      (frame.stage === "complete" || frame.stage === "error")
+    ) {
+      this.subscribers.delete(frame.interactionId);
+      this.owners.delete(frame.interactionId);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+// src/services/interactionSearch.ts
+import mongoose from "mongoose";
+import { Interaction } from "../models/interaction.js";
+
+// Fields callers may project; _id and timestamp are always returned since
+// the cursor is built from them
+export const INTERACTION_FIELDS = [
+  "userId",
+  "conversationId",
+  "message",
+  "response",
+  "evolutionScore",
+  "evolutionFactors",
+  "processed",
+  "context",
+  "memoryReferences",
+  "metadata",
+] as const;
+
+export type InteractionField = (typeof INTERACTION_FIELDS)[number];
+
+export interface InteractionCursor {
+  timestamp: Date;
+  id: string;
+}
+
+export interface InteractionFilter {
+  userId?: string;
+  conversationId?: string;
+  from?: Date;
+  to?: Date;
+  minScore?: number;
+  maxScore?: number;
+  topic?: string;
+  q?: string; // Full-text search over message and response
+}
+
+export interface InteractionPage {
+  items: Record<string, any>[];
+  nextCursor: string | null;
+}
+
+// Cursors are opaque to clients: the position of the last item returned
+export const encodeCursor = (cursor: InteractionCursor): string =>
+  Buffer.from(
+    JSON.stringify({ t: cursor.timestamp.toISOString(), id: cursor.id })
+  ).toString("base64url");
+
+export const decodeCursor = (value: string): InteractionCursor | null => {
+  try {
+    const { t, id } = JSON.parse(Buffer.from(value, "base64url").toString());
+    const timestamp = new Date(t);
+    if (isNaN(timestamp.getTime()) || !mongoose.isValidObjectId(id)) {
+      return null;
+    }
+    return { timestamp, id };
+  } catch {
+    return null;
+  }
+};
+
+// Newest-first interaction pages, stable under concurrent inserts
+export class InteractionSearch {
+  async page(
+    filter: InteractionFilter,
+    options: {
+      cursor?: InteractionCursor;
+      limit?: number;
+      fields?: InteractionField[];
+    } = {}
+  ): Promise<InteractionPage> {
+    const limit = options.limit || 20;
+    const conditions: mongoose.FilterQuery<any>[] = [];
+
+    if (filter.userId) conditions.push({ userId: filter.userId });
+    if (filter.conversationId) {
+      conditions.push({ conversationId: filter.conversationId });
+    }
+    if (filter.from || filter.to) {
+      conditions.push({
+        timestamp: {
+          ...(filter.from ? { $gte: filter.from } : {}),
+          ...(filter.to ? { $lte: filter.to } : {}),
+        },
+      });
+    }
+    if (filter.minScore !== undefined || filter.maxScore !== undefined) {
+      conditions.push({
+        evolutionScore: {
+          ...(filter.minScore !== undefined ? { $gte: filter.minScore } : {}),
+          ...(filter.maxScore !== undefined ? { $lte: filter.maxScore } : {}),
+        },
+      });
+    }
+    if (filter.topic) {
+      conditions.push({ "context.topics": filter.topic });
+    }
+    if (filter.q) {
+      conditions.push({ $text: { $search: filter.q } });
+    }
+    if (options.cursor) {
+      const { timestamp, id } = options.cursor;
+      const _id = new mongoose.Types.ObjectId(id);
+      conditions.push({
+        $or: [
+          { timestamp: { $lt: timestamp } },
+          { timestamp, _id: { $lt: _id } },
+        ],
+      });
+    }
+
+    const projection: Record<string, any> = options.fields
+      ? Object.fromEntries(
+          [...options.fields, "timestamp"].map((field) => [field, 1])
+        )
+      : {};
+    if (filter.q) {
+      projection.relevance = { $meta: "textScore" };
+    }
+
+    // One extra item tells us whether another page exists
+    const items = await Interaction.find(
+      conditions.length > 0 ? { $and: conditions } : {},
+      projection
+    )
+      .sort({ timestamp: -1, _id: -1 })
+      .limit(limit + 1)
+      .lean();
+
+    const page = items.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      items: page,
+      nextCursor:
+        items.length > limit
+          ? encodeCursor({ timestamp: last.timestamp, id: last._id.toString() })
+          : null,
+    };
+  }
+}
@@ -1,7 +1,11 @@
 // src/services/memorySystem.ts
 import { Redis } from "ioredis";
-import { OpenAI } from "openai";
+import { LlmRegistry } from "../llm/registry.js";
 import mongoose from "mongoose";
+import { createHash, randomUUID } from "crypto";
+import { createVectorStore } from "../vector/factory.js";
+import { VectorStore } from "../vector/types.js";
+import { escapeGlob } from "./redisPatterns.js";
 
 interface Memory {
   content: string;
@@ -9,43 +13,145 @@ interface Memory {
   importance: number;
 }
 
-interface ShortTermMemory {
+export interface ShortTermMemory {
   role: "user" | "assistant";
   content: string;
   timestamp: Date;
+  interactionId?: string; // Interaction the message belongs to
 }
 
-interface LongTermMemory extends Memory {
+export interface ConversationMemory extends ShortTermMemory {
+  conversationId: string;
+}
+
+export interface LongTermMemory extends Memory {
+  id: string;
   type: "fact" | "concept" | "pattern";
   lastAccessed: Date;
   accessCount: number;
+  pinned?: boolean; // Never evicted and always recalled
+}
+
+export interface LongTermMemoryUpdate {
+  content?: string;
+  type?: LongTermMemory["type"];
+  importance?: number;
+  pinned?: boolean;
+}
+
+// Long-term memories are a hash of JSON entries by id, so updates of
+// different memories don't conflict. Writes go through only while the
+// entry still holds what was read.
+
+// Sets entry ARGV[1] from ARGV[2] to ARGV[3]. With a limit in ARGV[4] the
+// entry is being pinned and fewer than that may be pinned already.
+// Returns 1 when written, 0 when the entry changed and -1 at the limit.
+const UPDATE_MEMORY_SCRIPT = `
+if redis.call('HGET', KEYS[1], ARGV[1]) ~= ARGV[2] then
+  return 0
+end
+if ARGV[4] then
+  local pinned = 0
+  for _, value in ipairs(redis.call('HVALS', KEYS[1])) do
+    if string.find(value, '"pinned":true', 1, true) then
+      pinned = pinned + 1
+    end
+  end
+  if pinned >= tonumber(ARGV[4]) then
+    return -1
+  end
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[3])
+return 1
+`;
+
+// Deletes entry ARGV[1] while it still holds ARGV[2]
+const DELETE_MEMORY_SCRIPT = `
+if redis.call('HGET', KEYS[1], ARGV[1]) ~= ARGV[2] then
+  return 0
+end
+return redis.call('HDEL', KEYS[1], ARGV[1])
+`;
+
+// Replaces the JSON list memories used to be stored as (ARGV[1]) with
+// the hash entries in the remaining id, value pairs
+const MIGRATE_SCRIPT = `
+local current = redis.pcall('GET', KEYS[1])
+if type(current) ~= 'string' or current ~= ARGV[1] then
+  return 0
+end
+redis.call('DEL', KEYS[1])
+for i = 2, #ARGV, 2 do
+  redis.call('HSET', KEYS[1], ARGV[i], ARGV[i + 1])
+end
+return 1
+`;
+
+export class PinLimitError extends Error {
+  constructor(limit: number) {
+    super(`At most ${limit} memories can be pinned`);
+  }
 }
 
 export class MemorySystem {
   private readonly redis: Redis;
-  private readonly openai: OpenAI;
+  private readonly llm: LlmRegistry;
+  private readonly vectorStore: VectorStore;
+  private readonly longTermLimitOf: (userId: string) => Promise<number>;
   private readonly SHORT_TERM_PREFIX = "stm:";
   private readonly LONG_TERM_PREFIX = "ltm:";
   private readonly MAX_SHORT_TERM = 10; // Reduced from 10
   private readonly MAX_LONG_TERM = 500; // Reduced from 1000
-
-  constructor(redis: Redis, openai: OpenAI) {
+  private readonly MAX_PINNED = 5;
+  private readonly MAX_WRITE_ATTEMPTS = 10; // Compare-and-set retries
+  private readonly migrated = new Set<string>(); // Users whose memories are a hash
+
+  // Retrieval tuning
+  private readonly CANDIDATE_POOL = 25; // Nearest neighbours to re-rank
+  private readonly MIN_SIMILARITY = 0.3;
+  private readonly RECENCY_HALF_LIFE_DAYS = 30;
+  private readonly RETRIEVAL_WEIGHTS = {
+    similarity: 0.6,
+    importance: 0.2,
+    recency: 0.1,
+    accessCount: 0.1,
+  };
+
+  // longTermLimitOf gives a per-user long-term capacity (by tier); the
+  // default is the same for everyone
+  constructor(
+    redis: Redis,
+    llm: LlmRegistry,
+    vectorStore: VectorStore = createVectorStore(redis),
+    longTermLimitOf?: (userId: string) => Promise<number>
+  ) {
     this.redis = redis;
-    this.openai = openai;
+    this.llm = llm;
+    this.vectorStore = vectorStore;
+    this.longTermLimitOf = longTermLimitOf || (async () => this.MAX_LONG_TERM);
   }
 
-  async addToShortTerm(userId: string, memory: ShortTermMemory): Promise<void> {
-    const key = `${this.SHORT_TERM_PREFIX}${userId}`;
-    const memories = await this.getShortTermMemories(userId);
+  // Short-term memory is kept per conversation
+  private shortTermKey(userId: string, conversationId: string): string {
+    return `${this.SHORT_TERM_PREFIX}${userId}:${conversationId}`;
+  }
 
-    // Truncate content if too long
-    const truncatedMemory = {
-      ...memory,
-      content: memory.content.slice(0, 500), // Limit content length
-    };
+  async addToShortTerm(
+    userId: string,
+    conversationId: string,
+    ...added: ShortTermMemory[]
+  ): Promise<void> {
+    const key = this.shortTermKey(userId, conversationId);
+    const memories = await this.getShortTermMemories(userId, conversationId);
 
-    memories.push(truncatedMemory);
-    if (memories.length > this.MAX_SHORT_TERM) {
+    // Truncate content if too long
+    memories.push(
+      ...added.map((memory) => ({
+        ...memory,
+        content: memory.content.slice(0, 500), // Limit content length
+      }))
+    );
+    while (memories.length > this.MAX_SHORT_TERM) {
       const discarded = memories.shift()!;
       await this.considerForLongTerm(userId, discarded);
     }
@@ -62,21 +168,20 @@ ${memory.content.slice(0, 200)}
 Format: TYPE|SCORE|REASON
 Where TYPE: fact/pattern/concept, SCORE: 0-1`;
 
-    const analysis = await this.openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [{ role: "system", content: prompt }],
-      temperature: 0.3,
-      max_tokens: 100,
-    });
+    const analysis = await this.llm
+      .for("memoryImportance")
+      .chat([{ role: "system", content: prompt }], {
+        temperature: 0.3,
+        maxTokens: 100,
+      });
 
-    const [type, importance, reason] = (
-      analysis.choices[0].message.content || ""
-    ).split("|");
+    const [type, importance, reason] = analysis.content.split("|");
     const importanceScore = parseFloat(importance);
 
     if (importanceScore > 0.8) {
       // Increased threshold from 0.7
       await this.addToLongTerm(userId, {
+        id: randomUUID(),
         type: type as "fact" | "concept" | "pattern",
         content: memory.content.slice(0, 500), // Limit content length
         timestamp: memory.timestamp,
@@ -89,29 +194,33 @@ Where TYPE: fact/pattern/concept, SCORE: 0-1`;
 
   async getRelevantMemories(
     userId: string,
+    conversationId: string,
     currentMessage: string
   ): Promise<{
     shortTerm: ShortTermMemory[];
     longTerm: LongTermMemory[];
   }> {
     const [shortTerm, longTerm] = await Promise.all([
-      this.getShortTermMemories(userId),
+      this.getShortTermMemories(userId, conversationId),
       this.getLongTermMemories(userId),
     ]);
 
     // Only use recent short-term memories
     const recentShortTerm = shortTerm.slice(-3);
 
-    // Find relevant long-term memories with optimized search
-    const relevantLongTerm = await this.findRelevantLongTerm(
-      longTerm,
-      currentMessage
-    );
+    // Pinned memories are always recalled, the rest are ranked by relevance
+    const pinned = longTerm.filter((m) => m.pinned);
+    const relevantLongTerm = [
+      ...pinned,
+      ...(await this.findRelevantLongTerm(
+        userId,
+        longTerm.filter((m) => !m.pinned),
+        currentMessage
+      )),
+    ];
 
     // Update access counts for used memories
-    await Promise.all(
-      relevantLongTerm.map((memory) => this.updateMemoryAccess(userId, memory))
-    );
+    await this.updateMemoryAccess(userId, relevantLongTerm);
 
     return {
       shortTerm: recentShortTerm,
@@ -120,97 +229,447 @@ Where TYPE: fact/pattern/concept, SCORE: 0-1`;
   }
 
   private async findRelevantLongTerm(
+    userId: string,
     memories: LongTermMemory[],
     currentMessage: string
   ): Promise<LongTermMemory[]> {
     if (memories.length === 0) return [];
 
-    // Pre-filter memories to reduce token count
-    const preFiltered = memories
-      .sort((a, b) => b.accessCount - a.accessCount)
-      .slice(0, 15); // Only consider top 15 most accessed memories
-
-    const prompt = `Rate relevance (0-1) of memories to: "${currentMessage.slice(
-      0,
-      100
-    )}"
-Return only comma-separated numbers.`;
-
-    const scoring = await this.openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: prompt,
-        },
-        {
-          role: "user",
-          content: preFiltered.map((m) => m.content.slice(0, 150)).join("\n"),
-        },
-      ],
-      temperature: 0.3,
-      max_tokens: 50,
-    });
+    await this.ensureIndexed(userId, memories);
 
-    const scores = (scoring.choices[0].message.content || "")
-      .split(",")
-      .map(Number);
+    const [queryVector] = await this.llm
+      .for("embedding")
+      .embed([currentMessage.slice(0, 2000)]);
+    const matches = await this.vectorStore.query(
+      userId,
+      queryVector,
+      this.CANDIDATE_POOL
+    );
+
+    const byId = new Map(memories.map((m) => [m.id, m]));
+    const maxAccessCount = Math.max(1, ...memories.map((m) => m.accessCount));
+
+    return matches
+      .filter((match) => match.score >= this.MIN_SIMILARITY)
+      .filter((match) => byId.has(match.id))
+      .map((match) => {
+        const memory = byId.get(match.id)!;
+        return {
+          memory,
+          score: this.hybridScore(memory, match.score, maxAccessCount),
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 3) // Return only top 3 memories
+      .map((ranked) => ranked.memory);
+  }
 
-    return preFiltered
-      .map((memory, index) => ({ ...memory, relevance: scores[index] || 0 }))
-      .filter((m) => m.relevance > 0.7) // Increased threshold
-      .sort((a, b) => b.relevance - a.relevance)
-      .slice(0, 3); // Return only top 3 memories
+  // Blend of semantic similarity with importance, recency and usage
+  private hybridScore(
+    memory: LongTermMemory,
+    similarity: number,
+    maxAccessCount: number
+  ): number {
+    const ageDays =
+      (Date.now() - new Date(memory.timestamp).getTime()) /
+      (1000 * 60 * 60 * 24);
+    const recency = Math.pow(0.5, ageDays / this.RECENCY_HALF_LIFE_DAYS);
+    const accessCount =
+      Math.log1p(memory.accessCount) / Math.log1p(maxAccessCount);
+    const weights = this.RETRIEVAL_WEIGHTS;
+
+    return (
+      weights.similarity * similarity +
+      weights.importance * memory.importance +
+      weights.recency * recency +
+      weights.accessCount * accessCount
+    );
+  }
+
+  // Embeds memories the vector store doesn't know yet: memories stored before
+  // embeddings existed, or everything after a restart with the in-process store
+  private async ensureIndexed(
+    userId: string,
+    memories: LongTermMemory[]
+  ): Promise<void> {
+    const indexed = new Set(await this.vectorStore.listIds(userId));
+    const missing = memories.filter((m) => !indexed.has(m.id));
+    if (missing.length === 0) return;
+
+    const vectors = await this.llm
+      .for("embedding")
+      .embed(missing.map((m) => m.content));
+    await this.vectorStore.upsert(
+      userId,
+      missing.map((m, index) => ({ id: m.id, vector: vectors[index] }))
+    );
   }
 
-  // Long-term memory management
+  // Long-term memory management. Long-term memories don't expire: they
+  // stay until evicted for a more important one, deleted or erased.
   private async addToLongTerm(
     userId: string,
     memory: LongTermMemory
   ): Promise<void> {
-    const key = `${this.LONG_TERM_PREFIX}${userId}`;
-    const memories = await this.getLongTermMemories(userId);
+    const key = await this.longTermKey(userId);
+    const limit = await this.longTermLimitOf(userId);
+    await this.redis.hset(key, memory.id, JSON.stringify(memory));
+
+    // Remove the least important memories that aren't pinned. More than
+    // one goes when the user's limit has shrunk since they were stored.
+    const stored = await this.redis.hgetall(key);
+    const surplus = Object.keys(stored).length - limit;
+    const candidates =
+      surplus > 0
+        ? this.sortByImportance(
+            Object.values(stored).map((value) => JSON.parse(value))
+          )
+            .filter((m) => !m.pinned)
+            .slice(-surplus)
+        : [];
+    const removed = await Promise.all(
+      candidates.map((m) =>
+        this.redis.eval(DELETE_MEMORY_SCRIPT, 1, key, m.id, stored[m.id])
+      )
+    );
+    const evicted = candidates.filter((_, index) => removed[index] === 1);
+
+    if (evicted.length > 0) {
+      await this.vectorStore.remove(
+        userId,
+        evicted.map((m) => m.id)
+      );
+    }
 
-    memories.push(memory);
-    memories.sort((a, b) => b.importance - a.importance);
+    if (!evicted.some((m) => m.id === memory.id)) {
+      const [vector] = await this.llm.for("embedding").embed([memory.content]);
+      await this.vectorStore.upsert(userId, [{ id: memory.id, vector }]);
+    }
+  }
+
+  // Applies change to one stored memory as a compare-and-set, running it
+  // again on a fresh copy when a concurrent update got in first. Pinning
+  // is checked against the limit in the same step. Returns the memory as
+  // stored, or null when it doesn't exist.
+  private async modifyMemory(
+    userId: string,
+    id: string,
+    change: (memory: LongTermMemory) => LongTermMemory
+  ): Promise<LongTermMemory | null> {
+    const key = await this.longTermKey(userId);
+
+    for (let attempt = 0; attempt < this.MAX_WRITE_ATTEMPTS; attempt++) {
+      const current = await this.redis.hget(key, id);
+      if (!current) return null;
+
+      const memory: LongTermMemory = JSON.parse(current);
+      const updated = change({ ...memory });
+      const pinning = Boolean(updated.pinned && !memory.pinned);
+      const written = await this.redis.eval(
+        UPDATE_MEMORY_SCRIPT,
+        1,
+        key,
+        id,
+        current,
+        JSON.stringify(updated),
+        ...(pinning ? [String(this.MAX_PINNED)] : [])
+      );
+      if (written === -1) throw new PinLimitError(this.MAX_PINNED);
+      if (written === 1) return updated;
+    }
+
+    throw new Error(
+      `Long-term memory ${id} of ${userId} changed during update`
+    );
+  }
 
-    if (memories.length > this.MAX_LONG_TERM) {
-      memories.pop(); // Remove least important memory
+  // Hash key of the user's long-term memories, moving them over from the
+  // single JSON list they used to be stored as on first use
+  private async longTermKey(userId: string): Promise<string> {
+    const key = `${this.LONG_TERM_PREFIX}${userId}`;
+    if (this.migrated.has(userId)) return key;
+
+    if ((await this.redis.type(key)) === "string") {
+      const legacy = await this.redis.get(key);
+      if (legacy !== null) {
+        const memories: LongTermMemory[] = JSON.parse(legacy);
+        await this.redis.eval(
+          MIGRATE_SCRIPT,
+          1,
+          key,
+          legacy,
+          ...memories.flatMap((m) => {
+            m.id ||= this.legacyId(m);
+            return [m.id, JSON.stringify(m)];
+          })
+        );
+      }
     }
 
-    await this.redis.set(key, JSON.stringify(memories)); // No expiry for long-term
+    this.migrated.add(userId);
+    return key;
+  }
+
+  // Stable id for memories stored before ids existed, so concurrent
+  // migrations assign the same one
+  private legacyId(memory: LongTermMemory): string {
+    return createHash("sha256")
+      .update(`${memory.timestamp}|${memory.content}`)
+      .digest("hex")
+      .slice(0, 32);
+  }
+
+  private sortByImportance(memories: LongTermMemory[]): LongTermMemory[] {
+    return memories.sort((a, b) => b.importance - a.importance);
   }
 
   private async updateMemoryAccess(
     userId: string,
-    memory: LongTermMemory
+    accessed: LongTermMemory[]
   ): Promise<void> {
-    const key = `${this.LONG_TERM_PREFIX}${userId}`;
-    const memories = await this.getLongTermMemories(userId);
+    await Promise.all(
+      accessed.map((m) =>
+        this.modifyMemory(userId, m.id, (memory) => ({
+          ...memory,
+          lastAccessed: new Date(),
+          accessCount: memory.accessCount + 1,
+        }))
+      )
+    );
+  }
+
+  // Memory management (exposed through /api/memory)
 
-    const index = memories.findIndex(
-      (m) => m.content === memory.content && m.timestamp === memory.timestamp
+  // One conversation's memories, or all of the user's in time order
+  async listShortTerm(
+    userId: string,
+    conversationId?: string
+  ): Promise<ConversationMemory[]> {
+    if (conversationId) {
+      return (await this.getShortTermMemories(userId, conversationId)).map(
+        (memory) => ({ ...memory, conversationId })
+      );
+    }
+    return this.getAllShortTerm(userId);
+  }
+
+  async clearShortTerm(userId: string, conversationId?: string): Promise<void> {
+    const keys = conversationId
+      ? [this.shortTermKey(userId, conversationId)]
+      : await this.shortTermKeys(userId);
+    if (keys.length > 0) {
+      await this.redis.del(...keys);
+    }
+  }
+
+  async listLongTerm(
+    userId: string,
+    options: {
+      offset?: number;
+      limit?: number;
+      type?: LongTermMemory["type"];
+      pinned?: boolean;
+    } = {}
+  ): Promise<{ items: LongTermMemory[]; total: number }> {
+    const { offset = 0, limit = 20, type, pinned } = options;
+    const memories = (await this.getLongTermMemories(userId)).filter(
+      (m) =>
+        (type === undefined || m.type === type) &&
+        (pinned === undefined || Boolean(m.pinned) === pinned)
     );
 
-    if (index !== -1) {
-      memories[index].lastAccessed = new Date();
-      memories[index].accessCount++;
-      await this.redis.set(key, JSON.stringify(memories));
+    return {
+      items: memories.slice(offset, offset + limit),
+      total: memories.length,
+    };
+  }
+
+  async searchLongTerm(
+    userId: string,
+    query: string,
+    limit = 10
+  ): Promise<(LongTermMemory & { similarity: number })[]> {
+    const memories = await this.getLongTermMemories(userId);
+    if (memories.length === 0) return [];
+
+    await this.ensureIndexed(userId, memories);
+
+    const [queryVector] = await this.llm
+      .for("embedding")
+      .embed([query.slice(0, 2000)]);
+    const matches = await this.vectorStore.query(userId, queryVector, limit);
+    const byId = new Map(memories.map((m) => [m.id, m]));
+
+    return matches
+      .filter((match) => byId.has(match.id))
+      .map((match) => ({ ...byId.get(match.id)!, similarity: match.score }));
+  }
+
+  async updateLongTerm(
+    userId: string,
+    id: string,
+    changes: LongTermMemoryUpdate
+  ): Promise<LongTermMemory | null> {
+    let contentChanged = false;
+
+    const memory = await this.modifyMemory(userId, id, (memory) => {
+      contentChanged =
+        changes.content !== undefined && changes.content !== memory.content;
+      return Object.assign(memory, changes, {
+        content: (changes.content ?? memory.content).slice(0, 500),
+      });
+    });
+    if (!memory) return null;
+
+    if (contentChanged) {
+      const [vector] = await this.llm.for("embedding").embed([memory.content]);
+      await this.vectorStore.upsert(userId, [{ id: memory.id, vector }]);
     }
+
+    return memory;
+  }
+
+  async deleteLongTerm(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.redis.hdel(await this.longTermKey(userId), id);
+    if (deleted === 0) return false;
+
+    await this.vectorStore.remove(userId, [id]);
+    return true;
+  }
+
+  // The given memories that still exist, e.g. those an interaction recalled
+  async getLongTerm(userId: string, ids: string[]): Promise<LongTermMemory[]> {
+    const wanted = new Set(ids);
+    return (await this.getLongTermMemories(userId)).filter((m) =>
+      wanted.has(m.id)
+    );
+  }
+
+  async exportUser(userId: string): Promise<{
+    shortTerm: ConversationMemory[];
+    longTerm: LongTermMemory[];
+  }> {
+    const [shortTerm, longTerm] = await Promise.all([
+      this.getAllShortTerm(userId),
+      this.getLongTermMemories(userId),
+    ]);
+    return { shortTerm, longTerm };
+  }
+
+  async eraseUser(userId: string): Promise<{
+    shortTerm: number;
+    longTerm: number;
+  }> {
+    const { shortTerm, longTerm } = await this.exportUser(userId);
+
+    await this.redis.del(
+      ...(await this.shortTermKeys(userId)),
+      `${this.SHORT_TERM_PREFIX}${userId}`, // Pre-conversation list
+      `${this.LONG_TERM_PREFIX}${userId}`
+    );
+    await this.vectorStore.drop(userId);
+
+    return { shortTerm: shortTerm.length, longTerm: longTerm.length };
+  }
+
+  // Admin overview of users holding memories. SCAN may return a user on
+  // more than one page; pass nextCursor back until it is "0".
+  async listMemoryUsers(
+    cursor = "0",
+    count = 50
+  ): Promise<{
+    users: { userId: string; shortTerm: number; longTerm: number }[];
+    nextCursor: string;
+  }> {
+    const [nextCursor, keys] = await this.redis.scan(
+      cursor,
+      "MATCH",
+      "[sl]tm:*",
+      "COUNT",
+      count
+    );
+
+    // Short-term keys end in a conversation id; user ids may contain ":"
+    const userIds = [
+      ...new Set(
+        keys.map((key) =>
+          key.startsWith(this.SHORT_TERM_PREFIX)
+            ? key.slice(4).replace(/:[0-9a-f]{24}$/, "")
+            : key.slice(4)
+        )
+      ),
+    ];
+    const users = await Promise.all(
+      userIds.map(async (userId) => {
+        const [shortTerm, longTerm] = await Promise.all([
+          this.getAllShortTerm(userId),
+          this.getLongTermMemories(userId),
+        ]);
+        return {
+          userId,
+          shortTerm: shortTerm.length,
+          longTerm: longTerm.length,
+        };
+      })
+    );
+
+    return { users, nextCursor };
   }
 
   private async getShortTermMemories(
-    userId: string
+    userId: string,
+    conversationId: string
   ): Promise<ShortTermMemory[]> {
-    const key = `${this.SHORT_TERM_PREFIX}${userId}`;
-    const data = await this.redis.get(key);
+    const data = await this.redis.get(
+      this.shortTermKey(userId, conversationId)
+    );
     return data ? JSON.parse(data) : [];
   }
 
+  // Conversation ids never contain ":", so keys of namespaced users such as
+  // `${userId}:other` are left out
+  private async shortTermKeys(userId: string): Promise<string[]> {
+    const prefix = this.shortTermKey(userId, "");
+    const keys: string[] = [];
+    let cursor = "0";
+    do {
+      const [next, batch] = await this.redis.scan(
+        cursor,
+        "MATCH",
+        `${escapeGlob(prefix)}*`,
+        "COUNT",
+        200
+      );
+      cursor = next;
+      keys.push(
+        ...batch.filter((key) => !key.slice(prefix.length).includes(":"))
+      );
+    } while (cursor !== "0");
+    return keys;
+  }
+
+  private async getAllShortTerm(userId: string): Promise<ConversationMemory[]> {
+    const keys = await this.shortTermKeys(userId);
+    if (keys.length === 0) return [];
+
+    const prefix = this.shortTermKey(userId, "");
+    const lists = await this.redis.mget(...keys);
+    return keys
+      .flatMap((key, index) =>
+        (JSON.parse(lists[index] || "[]") as ShortTermMemory[]).map(
+          (memory) => ({ ...memory, conversationId: key.slice(prefix.length) })
+        )
+      )
+      .sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      );
+  }
+
+  // Most important first
   private async getLongTermMemories(userId: string): Promise<LongTermMemory[]> {
-    const key = `${this.LONG_TERM_PREFIX}${userId}`;
-    const data = await this.redis.get(key);
-    return data ? JSON.parse(data) : [];
+    const values = await this.redis.hvals(await this.longTermKey(userId));
+    return this.sortByImportance(values.map((value) => JSON.parse(value)));
   }
 
   // Public getters
@@ -218,7 +677,11 @@ Return only comma-separated numbers.`;
     return this.MAX_SHORT_TERM;
   }
 
-  public get longTermLimit(): number {
-    return this.MAX_LONG_TERM;
+  public longTermLimitFor(userId: string): Promise<number> {
+    return this.longTermLimitOf(userId);
+  }
+
+  public get pinnedLimit(): number {
+    return this.MAX_PINNED;
   }
 }
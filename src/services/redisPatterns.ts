@@ -0,0 +1,6 @@
+// src/services/redisPatterns.ts
+
+// Escapes glob characters so a value such as a user id only matches itself
+// in SCAN MATCH patterns
+export const escapeGlob = (value: string): string =>
+  value.replace(/[*?[\]\\]/g, "\\$&");
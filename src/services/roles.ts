@@ -0,0 +1,132 @@
+// src/services/roles.ts
+import { Redis } from "ioredis";
+import { UserRole } from "../models/userRole.js";
+
+// Ordered from least to most privileged
+export const ROLES = ["viewer", "user", "operator", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export const DEFAULT_ROLE: Role = "user";
+
+export const PERMISSIONS = [
+  "interactions:read", // Own interactions, conversations and insights
+  "interact",
+  "memory:write",
+  "evolution:manage", // Queue controls, scoring and version history
+  "stats:read",
+  "interactions:read_any",
+  "memory:manage_any",
+  "users:manage", // Data requests, sessions and rate limits of any user
+  "roles:manage",
+  "api_keys:manage",
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  viewer: ["interactions:read"],
+  user: ["interactions:read", "interact", "memory:write"],
+  operator: [
+    "interactions:read",
+    "interact",
+    "memory:write",
+    "evolution:manage",
+    "stats:read",
+    "interactions:read_any",
+  ],
+  admin: PERMISSIONS,
+};
+
+export const isRole = (role: unknown): role is Role =>
+  ROLES.includes(role as Role);
+
+export const permissionsOf = (role?: string): readonly Permission[] =>
+  isRole(role) ? ROLE_PERMISSIONS[role] : [];
+
+export const hasPermission = (
+  role: string | undefined,
+  permission: Permission
+): boolean => permissionsOf(role).includes(permission);
+
+// API keys carry their own permissions instead of a role's
+export const can = (
+  user: { role?: string; permissions?: readonly Permission[] } | undefined,
+  permission: Permission
+): boolean =>
+  (user?.permissions ?? permissionsOf(user?.role)).includes(permission);
+
+export class RoleStore {
+  private readonly redis: Redis;
+  private readonly CACHE_PREFIX = "auth:role:";
+  private readonly cacheTtl = 60 * 5; // 5 minutes
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  async roleOf(userId: string): Promise<Role> {
+    const cached = await this.redis.get(`${this.CACHE_PREFIX}${userId}`);
+    if (isRole(cached)) return cached;
+
+    const record = await UserRole.findOne({ userId }).lean();
+    const role = isRole(record?.role) ? record.role : DEFAULT_ROLE;
+    await this.redis.set(
+      `${this.CACHE_PREFIX}${userId}`,
+      role,
+      "EX",
+      this.cacheTtl
+    );
+    return role;
+  }
+
+  // Returns the previous role
+  async grant(userId: string, role: Role, grantedBy: string): Promise<Role> {
+    const previous = await this.roleOf(userId);
+    await UserRole.updateOne(
+      { userId },
+      { $set: { role, grantedBy } },
+      { upsert: true }
+    );
+    await this.redis.del(`${this.CACHE_PREFIX}${userId}`);
+    return previous;
+  }
+
+  // Back to the default role; returns the previous one
+  async revoke(userId: string): Promise<Role> {
+    const previous = await this.roleOf(userId);
+    await UserRole.deleteOne({ userId });
+    await this.redis.del(`${this.CACHE_PREFIX}${userId}`);
+    return previous;
+  }
+
+  async list(options: { role?: Role; offset?: number; limit?: number } = {}) {
+    const filter = options.role ? { role: options.role } : {};
+    const [items, total] = await Promise.all([
+      UserRole.find(filter)
+        .sort({ updatedAt: -1 })
+        .skip(options.offset || 0)
+        .limit(options.limit || 50)
+        .lean(),
+      UserRole.countDocuments(filter),
+    ]);
+    return { items, total };
+  }
+
+  // Promotes the configured wallets (ADMIN_WALLETS) to admin at startup
+  async bootstrap(
+    wallets: string[] = (process.env.ADMIN_WALLETS || "")
+      .split(",")
+      .map((wallet) => wallet.trim())
+      .filter(Boolean)
+  ): Promise<number> {
+    for (const wallet of wallets) {
+      await this.grant(wallet, "admin", "bootstrap");
+    }
+    return wallets.length;
+  }
+
+  async eraseUser(userId: string): Promise<number> {
+    const result = await UserRole.deleteOne({ userId });
+    await this.redis.del(`${this.CACHE_PREFIX}${userId}`);
+    return result.deletedCount;
+  }
+}
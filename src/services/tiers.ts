@@ -0,0 +1,182 @@
+// src/services/tiers.ts
+import { Redis } from "ioredis";
+import { UserTier } from "../models/userTier.js";
+import { Holding, TokenGate } from "./tokenGate.js";
+
+export const TIERS = ["basic", "premium", "enterprise"] as const;
+export type Tier = (typeof TIERS)[number];
+
+export const DEFAULT_TIER: Tier = "basic";
+
+export interface TierLimit {
+  windowMs: number;
+  max: number;
+}
+
+const DEFAULT_LIMITS: Record<Tier, TierLimit> = {
+  basic: { windowMs: 15 * 60 * 1000, max: 100 },
+  premium: { windowMs: 15 * 60 * 1000, max: 300 },
+  enterprise: { windowMs: 15 * 60 * 1000, max: 1000 },
+};
+
+export interface TierFeatures {
+  walletActivityLimit: number; // Transactions read by wallet analysis
+  longTermMemoryLimit: number;
+}
+
+export const TIER_FEATURES: Record<Tier, TierFeatures> = {
+  basic: { walletActivityLimit: 10, longTermMemoryLimit: 200 },
+  premium: { walletActivityLimit: 25, longTermMemoryLimit: 500 },
+  enterprise: { walletActivityLimit: 50, longTermMemoryLimit: 1000 },
+};
+
+export const isTier = (tier: unknown): tier is Tier =>
+  TIERS.includes(tier as Tier);
+
+export const tierOrDefault = (tier: unknown): Tier =>
+  isTier(tier) ? tier : DEFAULT_TIER;
+
+export const higherTier = (a: Tier, b: Tier): Tier =>
+  TIERS.indexOf(a) >= TIERS.indexOf(b) ? a : b;
+
+// Limits per tier, overridable with RATE_LIMIT_TIER_<TIER>_MAX and
+// RATE_LIMIT_TIER_<TIER>_WINDOW_MS
+export const tierLimits = (): Record<Tier, TierLimit> =>
+  Object.fromEntries(
+    TIERS.map((tier) => {
+      const prefix = `RATE_LIMIT_TIER_${tier.toUpperCase()}`;
+      return [
+        tier,
+        {
+          windowMs:
+            parseInt(process.env[`${prefix}_WINDOW_MS`] || "") ||
+            DEFAULT_LIMITS[tier].windowMs,
+          max:
+            parseInt(process.env[`${prefix}_MAX`] || "") ||
+            DEFAULT_LIMITS[tier].max,
+        },
+      ];
+    })
+  ) as Record<Tier, TierLimit>;
+
+// Token balance needed for each tier, overridable with
+// TOKEN_TIER_<TIER>_MIN
+export const holdingThresholds = (): Record<Tier, number> => ({
+  basic: 0,
+  premium: parseFloat(process.env.TOKEN_TIER_PREMIUM_MIN || "") || 100_000,
+  enterprise:
+    parseFloat(process.env.TOKEN_TIER_ENTERPRISE_MIN || "") || 1_000_000,
+});
+
+export const tierForBalance = (balance: number): Tier => {
+  const thresholds = holdingThresholds();
+  return [...TIERS].reverse().find((tier) => balance >= thresholds[tier])!;
+};
+
+export interface TierStatus {
+  tier: Tier;
+  assigned: Tier;
+  holding: (Holding & { tier: Tier }) | null;
+}
+
+// A user's tier is the higher of the one assigned by an admin and the one
+// their token holdings qualify for
+export class TierStore {
+  private readonly redis: Redis;
+  private readonly gate: TokenGate;
+  private readonly CACHE_PREFIX = "auth:tier:";
+  private readonly cacheTtl = 60 * 5; // 5 minutes
+
+  constructor(redis: Redis, gate: TokenGate = new TokenGate(redis)) {
+    this.redis = redis;
+    this.gate = gate;
+  }
+
+  async tierOf(userId: string): Promise<Tier> {
+    return (await this.status(userId)).tier;
+  }
+
+  async status(userId: string): Promise<TierStatus> {
+    const [assigned, holding] = await Promise.all([
+      this.assignedTier(userId),
+      this.gate.holding(userId),
+    ]);
+    const held = holding ? tierForBalance(holding.balance) : DEFAULT_TIER;
+
+    return {
+      tier: higherTier(assigned, held),
+      assigned,
+      holding: holding ? { ...holding, tier: held } : null,
+    };
+  }
+
+  async assignedTier(userId: string): Promise<Tier> {
+    const cached = await this.redis.get(`${this.CACHE_PREFIX}${userId}`);
+    if (isTier(cached)) return cached;
+
+    const record = await UserTier.findOne({ userId }).lean();
+    const tier = isTier(record?.tier) ? record.tier : DEFAULT_TIER;
+    await this.redis.set(
+      `${this.CACHE_PREFIX}${userId}`,
+      tier,
+      "EX",
+      this.cacheTtl
+    );
+    return tier;
+  }
+
+  // Sets the admin-assigned tier and returns the previous one
+  async setTier(userId: string, tier: Tier, updatedBy: string): Promise<Tier> {
+    const previous = await this.assignedTier(userId);
+    if (tier === DEFAULT_TIER) {
+      await UserTier.deleteOne({ userId });
+    } else {
+      await UserTier.updateOne(
+        { userId },
+        { $set: { tier, updatedBy } },
+        { upsert: true }
+      );
+    }
+    await this.redis.del(`${this.CACHE_PREFIX}${userId}`);
+    return previous;
+  }
+
+  async list(options: { tier?: Tier; offset?: number; limit?: number } = {}) {
+    const filter = options.tier ? { tier: options.tier } : {};
+    const [items, total] = await Promise.all([
+      UserTier.find(filter)
+        .sort({ updatedAt: -1 })
+        .skip(options.offset || 0)
+        .limit(options.limit || 50)
+        .lean(),
+      UserTier.countDocuments(filter),
+    ]);
+    return { items, total };
+  }
+
+  // Re-reads stale token balances and returns the users whose tier
+  // changed with them
+  async refreshHoldings(): Promise<{ userId: string; tier: Tier }[]> {
+    const changes = await this.gate.refreshTracked();
+    const moved = changes.filter(
+      (change) =>
+        tierForBalance(change.previous || 0) !== tierForBalance(change.balance)
+    );
+
+    return Promise.all(
+      moved.map(async ({ wallet }) => ({
+        userId: wallet,
+        tier: await this.tierOf(wallet),
+      }))
+    );
+  }
+
+  async eraseUser(userId: string): Promise<number> {
+    const result = await UserTier.deleteOne({ userId });
+    await Promise.all([
+      this.redis.del(`${this.CACHE_PREFIX}${userId}`),
+      this.gate.eraseUser(userId),
+    ]);
+    return result.deletedCount;
+  }
+}
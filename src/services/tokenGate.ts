@@ -0,0 +1,212 @@
+// src/services/tokenGate.ts
+import { Redis } from "ioredis";
+import {
+  SolanaBaseConnector,
+  solanaAddressSchema,
+} from "../tools/solana/baseConnector.js";
+
+export const DEFAULT_TOKEN_MINT =
+  "7NwukWynkZap56CRwPjxde2HY7z4nFNzzVYTQ96Lpump";
+
+export interface HoldingsSource {
+  balanceOf(wallet: string, mint: string): Promise<number>;
+}
+
+export interface Holding {
+  balance: number;
+  checkedAt: Date;
+}
+
+interface CachedHolding {
+  balance: number;
+  checkedAt: number; // Last successful read, epoch ms
+  failedAt?: number;
+}
+
+export interface HoldingChange {
+  wallet: string;
+  previous: number | null;
+  balance: number;
+}
+
+// Reads balances from a Solana RPC node; point it at solana-test-validator
+// to run against a local chain
+export class RpcHoldingsSource implements HoldingsSource {
+  private readonly connector: SolanaBaseConnector;
+
+  constructor(rpcUrl: string) {
+    this.connector = new SolanaBaseConnector(rpcUrl);
+  }
+
+  async balanceOf(wallet: string, mint: string): Promise<number> {
+    const accounts = await this.connector.getTokenAccountsByOwner(wallet, mint);
+    return accounts.value.reduce(
+      (total, account) =>
+        total + (account.account.data.parsed.info.tokenAmount.uiAmount || 0),
+      0
+    );
+  }
+}
+
+// Fixed balances for offline runs and tests; unknown wallets hold nothing
+export class StaticHoldingsSource implements HoldingsSource {
+  private readonly balances: Record<string, number>;
+
+  constructor(balances: Record<string, number> = {}) {
+    this.balances = balances;
+  }
+
+  async balanceOf(wallet: string): Promise<number> {
+    return this.balances[wallet] || 0;
+  }
+}
+
+export const createHoldingsSource = (
+  env: NodeJS.ProcessEnv = process.env
+): HoldingsSource => {
+  switch (env.TOKEN_GATE_SOURCE || "rpc") {
+    case "rpc":
+      return new RpcHoldingsSource(
+        env.TOKEN_GATE_RPC_URL ||
+          env.SOLANA_RPC_URL ||
+          "https://api.mainnet-beta.solana.com"
+      );
+    case "static":
+      return new StaticHoldingsSource(
+        JSON.parse(env.TOKEN_GATE_STATIC_BALANCES || "{}")
+      );
+    default:
+      throw new Error(`Unknown token gate source '${env.TOKEN_GATE_SOURCE}'`);
+  }
+};
+
+// Token balances of wallets that signed in, cached in Redis. Requests only
+// read the cache; refreshTracked reads the balances of wallets seen
+// recently in the background once they are older than the refresh interval.
+export class TokenGate {
+  private readonly redis: Redis;
+  private readonly source: HoldingsSource;
+  private readonly BALANCE_PREFIX = "token_gate:balance:";
+  private readonly WALLETS_KEY = "token_gate:wallets";
+  readonly mint = process.env.TOKEN_GATE_MINT || DEFAULT_TOKEN_MINT;
+  private readonly refreshInterval =
+    parseInt(process.env.TOKEN_GATE_REFRESH_SECONDS || "600") * 1000; // 10 minutes
+  private readonly retryInterval = 60 * 1000; // After a failed read
+  private readonly trackFor = 7 * 24 * 60 * 60 * 1000; // 7 days
+  private readonly seen = new Map<string, number>(); // When last tracked here
+
+  constructor(redis: Redis, source: HoldingsSource = createHoldingsSource()) {
+    this.redis = redis;
+    this.source = source;
+  }
+
+  // Only wallet users hold tokens; API key and namespaced users never do
+  isWallet(userId: string): boolean {
+    return solanaAddressSchema.safeParse(userId).success;
+  }
+
+  // The cached balance, however old; null for wallets refreshTracked
+  // hasn't read yet
+  async holding(userId: string): Promise<Holding | null> {
+    if (!this.isWallet(userId)) return null;
+
+    await this.track(userId);
+    const cached = await this.cached(userId);
+    return cached ? this.toHolding(cached) : null;
+  }
+
+  // Marks the wallet seen for refreshTracked, at most once per refresh
+  // interval from this process
+  private async track(wallet: string): Promise<void> {
+    const now = Date.now();
+    if (now - (this.seen.get(wallet) ?? 0) < this.refreshInterval) return;
+
+    for (const [other, at] of this.seen) {
+      if (now - at >= this.refreshInterval) this.seen.delete(other);
+    }
+    this.seen.set(wallet, now);
+    await this.redis.zadd(this.WALLETS_KEY, now, wallet);
+  }
+
+  // Re-reads stale balances of wallets seen in the last week and returns
+  // the ones that changed
+  async refreshTracked(limit: number = 100): Promise<HoldingChange[]> {
+    await this.redis.zremrangebyscore(
+      this.WALLETS_KEY,
+      0,
+      Date.now() - this.trackFor
+    );
+    const wallets = await this.redis.zrevrange(this.WALLETS_KEY, 0, -1);
+
+    const changes: HoldingChange[] = [];
+    let checked = 0;
+    for (const wallet of wallets) {
+      if (checked >= limit) break;
+
+      const cached = await this.cached(wallet);
+      if (cached && !this.isStale(cached)) continue;
+
+      checked++;
+      const current = await this.check(wallet, cached);
+      const previous = cached ? cached.balance : null;
+      if (current.balance !== previous) {
+        changes.push({ wallet, previous, balance: current.balance });
+      }
+    }
+    return changes;
+  }
+
+  async eraseUser(userId: string): Promise<number> {
+    this.seen.delete(userId);
+    const [deleted] = await Promise.all([
+      this.redis.del(`${this.BALANCE_PREFIX}${userId}`),
+      this.redis.zrem(this.WALLETS_KEY, userId),
+    ]);
+    return deleted;
+  }
+
+  private async cached(wallet: string): Promise<CachedHolding | null> {
+    const data = await this.redis.get(`${this.BALANCE_PREFIX}${wallet}`);
+    return data ? JSON.parse(data) : null;
+  }
+
+  private isStale(cached: CachedHolding): boolean {
+    const checkedAt = Math.max(cached.checkedAt, cached.failedAt || 0);
+    const interval = cached.failedAt
+      ? this.retryInterval
+      : this.refreshInterval;
+    return Date.now() - checkedAt >= interval;
+  }
+
+  // A failed read keeps the last known balance, or none, and is retried
+  // after a minute rather than on every refresh
+  private async check(
+    wallet: string,
+    cached: CachedHolding | null
+  ): Promise<CachedHolding> {
+    let current: CachedHolding;
+    try {
+      const balance = await this.source.balanceOf(wallet, this.mint);
+      current = { balance, checkedAt: Date.now() };
+    } catch (error) {
+      console.error(`Error reading token balance of ${wallet}:`, error);
+      current = {
+        balance: cached?.balance || 0,
+        checkedAt: cached?.checkedAt || 0,
+        failedAt: Date.now(),
+      };
+    }
+
+    await this.redis.set(
+      `${this.BALANCE_PREFIX}${wallet}`,
+      JSON.stringify(current),
+      "PX",
+      this.trackFor
+    );
+    return current;
+  }
+
+  private toHolding(cached: CachedHolding): Holding {
+    return { balance: cached.balance, checkedAt: new Date(cached.checkedAt) };
+  }
+}
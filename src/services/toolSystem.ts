@@ -1,7 +1,8 @@
 // src/services/toolSystem.ts
 
 import { Redis } from "ioredis";
-import { Tool, ToolResult } from "../tools/base/types.js";
+import { zodResponseFormat } from "openai/helpers/zod";
+import { Tool, ToolContext, ToolResult } from "../tools/base/types.js";
 import { CryptoPriceTool } from "../tools/crypto/cryptoPriceTool.js";
 import { SolanaTokenTool } from "../tools/solana/tokenTool.js";
 import { SolanaWalletTool } from "../tools/solana/walletTool.js";
@@ -30,7 +31,11 @@ export class ToolSystem {
     this.tools.set(tool.name, tool);
   }
 
-  public async executeTool(name: string, args: any): Promise<ToolResult> {
+  public async executeTool(
+    name: string,
+    args: any,
+    context: ToolContext = {}
+  ): Promise<ToolResult> {
     const tool = this.tools.get(name);
     if (!tool) {
       return {
@@ -40,8 +45,21 @@ export class ToolSystem {
       };
     }
 
+    const parsed = tool.argsSchema.safeParse(args);
+    if (!parsed.success) {
+      return {
+        success: false,
+        data: null,
+        error: `Invalid arguments for '${name}'`,
+        validationErrors: parsed.error.issues.map((issue) => ({
+          path: issue.path.join("."),
+          message: issue.message,
+        })),
+      };
+    }
+
     try {
-      return await tool.execute(args);
+      return await tool.execute(parsed.data, context);
     } catch (error: any) {
       return {
         success: false,
@@ -51,13 +69,24 @@ export class ToolSystem {
     }
   }
 
-  getToolDescriptions(): { name: string; description: string }[] {
+  getToolDescriptions(): {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  }[] {
     return Array.from(this.tools.entries()).map(([name, tool]) => ({
       name,
       description: tool.description,
+      parameters: this.getParametersSchema(tool),
     }));
   }
 
+  // JSON schema generated from the tool's zod schema
+  private getParametersSchema(tool: Tool): Record<string, unknown> {
+    return zodResponseFormat(tool.argsSchema, tool.name).json_schema
+      .schema as Record<string, unknown>;
+  }
+
   async clearToolCache(pattern?: string): Promise<void> {
     // Implementation would need to be updated to work with multiple tool cache prefixes
     const allPrefixes = ["crypto_price:", "solana_token:"]; // Add all tool prefixes
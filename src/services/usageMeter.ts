@@ -0,0 +1,202 @@
+// src/services/usageMeter.ts
+import { Redis } from "ioredis";
+import mongoose from "mongoose";
+import { UsageRecord } from "../models/usageRecord.js";
+import { UsageEvent, UsageRecorder } from "../llm/metering.js";
+import { TIERS, Tier } from "./tiers.js";
+import { escapeGlob } from "./redisPatterns.js";
+
+export const USAGE_GROUPS = ["subsystem", "user", "model", "day"] as const;
+export type UsageGroup = (typeof USAGE_GROUPS)[number];
+
+const DEFAULT_DAILY_TOKENS: Record<Tier, number> = {
+  basic: 200_000,
+  premium: 1_000_000,
+  enterprise: 0,
+};
+
+// Daily token quota per tier, overridable with USAGE_DAILY_TOKENS_<TIER>.
+// 0 means unlimited; malformed or negative values keep the default.
+export const usageQuotas = (): Record<Tier, number> =>
+  Object.fromEntries(
+    TIERS.map((tier) => {
+      const configured =
+        process.env[`USAGE_DAILY_TOKENS_${tier.toUpperCase()}`] || "";
+      const tokens = /^\d+$/.test(configured.trim())
+        ? parseInt(configured)
+        : DEFAULT_DAILY_TOKENS[tier];
+      return [tier, tokens];
+    })
+  ) as Record<Tier, number>;
+
+export interface DailyUsage {
+  tokens: number;
+  cost: number; // USD
+  calls: number;
+}
+
+export interface QuotaStatus extends DailyUsage {
+  tier: Tier;
+  limit: number | null; // Tokens per UTC day; null when unlimited
+  remaining: number | null;
+  exceeded: boolean;
+  resetsAt: Date;
+}
+
+export interface UsageReportOptions {
+  groupBy: UsageGroup;
+  from: Date;
+  to: Date;
+  userId?: string;
+  subsystem?: string;
+  limit?: number;
+}
+
+// Stores every metered LLM call and keeps per-user daily totals in Redis
+// for quota checks. Days are UTC.
+export class UsageMeter implements UsageRecorder {
+  private readonly redis: Redis;
+  private readonly DAILY_PREFIX = "usage:daily:";
+  private readonly dailyTtl = 60 * 60 * 48; // Today's key outlives the day
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  private dailyKey(userId: string, date: Date = new Date()): string {
+    return `${this.DAILY_PREFIX}${userId}:${date.toISOString().slice(0, 10)}`;
+  }
+
+  async record(event: UsageEvent): Promise<void> {
+    await UsageRecord.create(event);
+    if (!event.userId) return;
+
+    const key = this.dailyKey(event.userId, event.timestamp);
+    await this.redis
+      .multi()
+      .hincrby(key, "tokens", event.totalTokens)
+      .hincrbyfloat(key, "cost", event.cost)
+      .hincrby(key, "calls", 1)
+      .expire(key, this.dailyTtl)
+      .exec();
+  }
+
+  async today(userId: string): Promise<DailyUsage> {
+    const data = await this.redis.hgetall(this.dailyKey(userId));
+    return {
+      tokens: parseInt(data.tokens || "0"),
+      cost: parseFloat(data.cost || "0"),
+      calls: parseInt(data.calls || "0"),
+    };
+  }
+
+  async quotaStatus(userId: string, tier: Tier): Promise<QuotaStatus> {
+    const usage = await this.today(userId);
+    const limit = usageQuotas()[tier] || null;
+
+    const resetsAt = new Date();
+    resetsAt.setUTCHours(24, 0, 0, 0);
+
+    return {
+      ...usage,
+      tier,
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - usage.tokens),
+      exceeded: limit !== null && usage.tokens >= limit,
+      resetsAt,
+    };
+  }
+
+  // Calls, tokens and spend summed per group, largest spend first (or in
+  // date order when grouping by day)
+  async report(options: UsageReportOptions) {
+    const match: mongoose.FilterQuery<any> = {
+      timestamp: { $gte: options.from, $lte: options.to },
+    };
+    if (options.userId) match.userId = options.userId;
+    if (options.subsystem) match.subsystem = options.subsystem;
+
+    const groupKeys: Record<UsageGroup, unknown> = {
+      subsystem: "$subsystem",
+      user: { $ifNull: ["$userId", "system"] },
+      model: "$model",
+      day: { $dateToString: { format: "%Y-%m-%d", date: "$timestamp" } },
+    };
+    const sums = {
+      calls: { $sum: 1 },
+      promptTokens: { $sum: "$promptTokens" },
+      completionTokens: { $sum: "$completionTokens" },
+      totalTokens: { $sum: "$totalTokens" },
+      cost: { $sum: "$cost" },
+      estimatedCalls: { $sum: { $cond: ["$estimated", 1, 0] } },
+    };
+
+    const [groups, totals] = await Promise.all([
+      UsageRecord.aggregate([
+        { $match: match },
+        { $group: { _id: groupKeys[options.groupBy], ...sums } },
+        { $sort: options.groupBy === "day" ? { _id: 1 } : { cost: -1 } },
+        { $limit: options.limit || 100 },
+      ]),
+      UsageRecord.aggregate([
+        { $match: match },
+        { $group: { _id: null, ...sums } },
+      ]),
+    ]);
+
+    const { _id, ...total } = totals[0] || {
+      _id: null,
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      cost: 0,
+      estimatedCalls: 0,
+    };
+
+    return {
+      groupBy: options.groupBy,
+      from: options.from,
+      to: options.to,
+      items: groups.map(({ _id, ...sums }) => ({ key: _id, ...sums })),
+      totals: total,
+    };
+  }
+
+  async forInteraction(interactionId: string) {
+    return UsageRecord.find({ interactionId }).sort({ timestamp: 1 }).lean();
+  }
+
+  async exportUser(userId: string) {
+    return UsageRecord.find({ userId }).sort({ timestamp: 1 }).lean();
+  }
+
+  // Spend stays in the totals; only the link to the user goes
+  async eraseUser(userId: string): Promise<number> {
+    const result = await UsageRecord.updateMany(
+      { userId },
+      { $set: { userId: "erased" }, $unset: { interactionId: 1 } }
+    );
+
+    // Dates never contain ":", so keys of namespaced users such as
+    // `${userId}:other` are left alone
+    const prefix = `${this.DAILY_PREFIX}${userId}:`;
+    let cursor = "0";
+    do {
+      const [next, batch] = await this.redis.scan(
+        cursor,
+        "MATCH",
+        `${escapeGlob(prefix)}*`,
+        "COUNT",
+        100
+      );
+      cursor = next;
+      const keys = batch.filter(
+        (key) => !key.slice(prefix.length).includes(":")
+      );
+      if (keys.length > 0) await this.redis.del(...keys);
+    } while (cursor !== "0");
+
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,223 @@
+// src/services/userData.ts
+import { Redis } from "ioredis";
+import { createHash, randomUUID } from "crypto";
+import { Interaction } from "../models/interaction.js";
+import { EvolutionQueue } from "../models/evolutionQueue.js";
+import { DataRequest } from "../models/dataRequest.js";
+import { EnhancedRateLimiter } from "../middleware/rateLimiter.js";
+import { VirusProtocolCore } from "./virusProtocol.js";
+import { AuthSessions } from "./authSessions.js";
+import { RoleStore } from "./roles.js";
+import { ApiKeys } from "./apiKeys.js";
+import { TierStore } from "./tiers.js";
+
+// Deletes the erasure lock only while we still hold it
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+interface ErasureCounts {
+  interactions: number;
+  conversations: number;
+  evolutionJobs: number;
+  queuedEvolutions: number;
+  redactedVersions: number;
+  deletedInsights: number;
+  noveltyBaseline: number;
+  rebuiltContexts: number;
+  contextKeys: number;
+  shortTermMemories: number;
+  longTermMemories: number;
+  rateLimitKeys: number;
+  authSessions: number;
+  roleGrants: number;
+  apiKeyReferences: number;
+  tierRecords: number;
+  usageRecords: number;
+}
+
+// Export and erasure of everything tied to a wallet userId
+export class UserDataService {
+  private redis: Redis;
+  private virusProtocol: VirusProtocolCore;
+  private rateLimiter: EnhancedRateLimiter;
+  private authSessions: AuthSessions;
+  private roles: RoleStore;
+  private tiers: TierStore;
+  private apiKeys = new ApiKeys();
+  private readonly LOCK_PREFIX = "data_erasure_lock:";
+
+  constructor(redis: Redis, virusProtocol: VirusProtocolCore) {
+    this.redis = redis;
+    this.virusProtocol = virusProtocol;
+    this.rateLimiter = new EnhancedRateLimiter(redis);
+    this.roles = new RoleStore(redis);
+    this.tiers = new TierStore(redis);
+    this.authSessions = new AuthSessions(redis, this.roles);
+  }
+
+  private hashSubject(userId: string): string {
+    return createHash("sha256").update(userId).digest("hex");
+  }
+
+  async exportUserData(userId: string, requestedBy: string) {
+    const request = await DataRequest.create({
+      subjectHash: this.hashSubject(userId),
+      action: "export",
+      requestedBy,
+    });
+
+    try {
+      const [
+        interactions,
+        conversations,
+        evolutionJobs,
+        memories,
+        rateLimits,
+        role,
+        tier,
+        apiKeys,
+        usage,
+      ] = await Promise.all([
+        Interaction.find({ userId }).sort({ timestamp: 1 }).lean(),
+        this.virusProtocol.conversations.exportUser(userId),
+        EvolutionQueue.find({ userId }).sort({ timestamp: 1 }).lean(),
+        this.virusProtocol.memory.exportUser(userId),
+        this.rateLimiter.getRateLimitStatus(userId),
+        this.roles.roleOf(userId),
+        this.tiers.status(userId),
+        this.apiKeys.exportUser(userId),
+        this.virusProtocol.usage.exportUser(userId),
+      ]);
+
+      const archive = {
+        userId,
+        exportedAt: new Date(),
+        requestId: request._id.toString(),
+        role,
+        tier,
+        interactions,
+        conversations,
+        evolutionJobs,
+        memories,
+        rateLimits,
+        apiKeys,
+        usage,
+      };
+
+      await request.updateOne({
+        status: "completed",
+        completedAt: new Date(),
+        counts: {
+          interactions: interactions.length,
+          conversations: conversations.length,
+          evolutionJobs: evolutionJobs.length,
+          shortTermMemories: memories.shortTerm.length,
+          longTermMemories: memories.longTerm.length,
+        },
+      });
+
+      return archive;
+    } catch (error: any) {
+      await request.updateOne({ status: "failed", error: error.message });
+      throw error;
+    }
+  }
+
+  // Safe to repeat: a second run finds nothing and records zero counts.
+  // Returns null when an erasure for the same user is already running.
+  async eraseUserData(
+    userId: string,
+    requestedBy: string
+  ): Promise<{ requestId: string; counts: ErasureCounts } | null> {
+    const subjectHash = this.hashSubject(userId);
+    const lockKey = `${this.LOCK_PREFIX}${subjectHash}`;
+
+    const token = randomUUID();
+    const acquired = await this.redis.set(lockKey, token, "EX", 300, "NX");
+    if (!acquired) return null;
+
+    const request = await DataRequest.create({
+      subjectHash,
+      action: "erase",
+      requestedBy,
+    });
+
+    try {
+      const interactionIds = (
+        await Interaction.find({ userId }).select("_id").lean()
+      ).map((doc) => doc._id.toString());
+
+      const [interactions, evolutionJobs] = await Promise.all([
+        Interaction.deleteMany({ userId }),
+        EvolutionQueue.deleteMany({ userId }),
+      ]);
+
+      const conversations =
+        await this.virusProtocol.conversations.eraseUser(userId);
+      const queuedEvolutions =
+        await this.virusProtocol.evolutionJobs.remove(interactionIds);
+      // The user's own context goes first, so only shared ones are rebuilt
+      const contextKeys = await this.virusProtocol.context.eraseUser(userId);
+      const {
+        redactedVersions,
+        deletedInsights,
+        noveltyBaseline,
+        rebuiltContexts,
+      } = await this.virusProtocol.forgetInteractions(interactionIds);
+      const memories = await this.virusProtocol.memory.eraseUser(userId);
+      const rateLimitKeys = await this.rateLimiter.clearUserLimits(userId);
+      const authSessions = await this.authSessions.eraseUser(userId);
+      const roleGrants = await this.roles.eraseUser(userId);
+      const apiKeyReferences = await this.apiKeys.eraseUser(userId);
+      const tierRecords = await this.tiers.eraseUser(userId);
+      const usageRecords = await this.virusProtocol.usage.eraseUser(userId);
+
+      const counts: ErasureCounts = {
+        interactions: interactions.deletedCount,
+        conversations,
+        evolutionJobs: evolutionJobs.deletedCount,
+        queuedEvolutions,
+        redactedVersions,
+        deletedInsights,
+        noveltyBaseline,
+        rebuiltContexts,
+        contextKeys,
+        shortTermMemories: memories.shortTerm,
+        longTermMemories: memories.longTerm,
+        rateLimitKeys,
+        authSessions,
+        roleGrants,
+        apiKeyReferences,
+        tierRecords,
+        usageRecords,
+      };
+
+      await request.updateOne({
+        status: "completed",
+        completedAt: new Date(),
+        counts,
+      });
+
+      return { requestId: request._id.toString(), counts };
+    } catch (error: any) {
+      await request.updateOne({ status: "failed", error: error.message });
+      throw error;
+    } finally {
+      await this.redis.eval(RELEASE_SCRIPT, 1, lockKey, token);
+    }
+  }
+
+  async listRequests(options: { userId?: string; limit?: number } = {}) {
+    const filter = options.userId
+      ? { subjectHash: this.hashSubject(options.userId) }
+      : {};
+    return DataRequest.find(filter)
+      .sort({ createdAt: -1 })
+      .limit(options.limit || 50)
+      .lean();
+  }
+}
@@ -2,12 +2,44 @@
 
 import mongoose from "mongoose";
 import { Redis } from "ioredis";
-import { OpenAI } from "openai";
 import { EventEmitter } from "events";
-import { ContextManager } from "./contextManager.js";
+import { ContextManager, ContextSummary } from "./contextManager.js";
 import { ToolSystem } from "./toolSystem.js";
-import { MemorySystem } from "./memorySystem.js";
-import { ToolResult } from "../tools/base/types.js";
+import {
+  LongTermMemory,
+  MemorySystem,
+  ShortTermMemory,
+} from "./memorySystem.js";
+import { Conversations } from "./conversations.js";
+import { TIER_FEATURES, TierStore } from "./tiers.js";
+import { UsageMeter } from "./usageMeter.js";
+import { EvolutionJobQueue } from "./evolutionJobQueue.js";
+import { EvolutionQueue } from "../models/evolutionQueue.js";
+import { Interaction } from "../models/interaction.js";
+import { EvolutionFactors, EvolutionScorer } from "./evolutionScorer.js";
+import {
+  EvolutionInsights,
+  evolutionAnalysisSchema,
+} from "./evolutionInsights.js";
+import {
+  EvolutionHistory,
+  VersionKind,
+  VersionRecord,
+} from "./evolutionHistory.js";
+import { ToolContext, ToolResult } from "../tools/base/types.js";
+import { LlmRegistry } from "../llm/registry.js";
+import {
+  UsageScope,
+  currentUsageScope,
+  newUsageTotals,
+  withUsageScope,
+} from "../llm/metering.js";
+import {
+  LlmChatOptions,
+  LlmMessage,
+  LlmProvider,
+  LlmToolCall,
+} from "../llm/types.js";
 
 interface ProgressUpdate {
   stage: string;
@@ -16,13 +48,76 @@ interface ProgressUpdate {
   details?: any;
 }
 
-interface InteractionResult {
+interface ProcessingStep {
+  stage: string;
+  message: string;
+  progress: number;
+  elapsedMs: number; // Since the interaction started
+}
+
+interface ToolCallRecord {
+  name: string;
+  arguments: unknown;
+  success: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+// The blended evolution context a response was generated with
+interface EvolutionContext {
+  text: string;
+  topics: string[];
+  insights: string[];
+  version?: number; // Global context version
+  personalVersion?: number;
+}
+
+// What shaped one interaction's response, collected while it is handled
+// and stored with it
+interface InteractionTrace {
+  startedAt: number;
+  steps: ProcessingStep[];
+  toolCalls: ToolCallRecord[];
+  context?: EvolutionContext;
+  memories?: { shortTerm: ShortTermMemory[]; longTerm: LongTermMemory[] };
+  respondedAt?: number;
+}
+
+export interface InteractionResult {
   id: string;
+  conversationId: string;
   message: string;
   response: string;
   timestamp: Date;
   evolutionScore: number;
-  processingSteps: ProgressUpdate[];
+  processingSteps: ProcessingStep[];
+}
+
+export type StreamFrame =
+  | {
+      type: "start";
+      interactionId: string;
+      userId: string;
+      conversationId: string;
+    }
+  | ({ type: "progress"; interactionId: string } & ProgressUpdate)
+  | { type: "token"; interactionId: string; content: string }
+  | { type: "done"; interactionId: string; response: string }
+  | { type: "error"; interactionId: string; error: string };
+
+export interface EvolutionProgress {
+  jobId: string;
+  interactionId: string;
+  userId: string;
+  status: "pending" | "processing" | "completed" | "failed";
+  progress: number; // 0-100
+  error?: string;
+}
+
+interface StreamedInteraction {
+  interactionId: string;
+  response: string;
+  finalized: Promise<InteractionResult>; // Settles once scoring and storage finish
 }
 
 interface SystemStats {
@@ -33,52 +128,272 @@ interface SystemStats {
 }
 
 export class VirusProtocolCore extends EventEmitter {
-  private openai: OpenAI;
+  private llm: LlmRegistry;
   private redis: Redis;
   private contextManager: ContextManager;
   private memorySystem: MemorySystem;
+  private conversationStore: Conversations;
   private toolSystem: ToolSystem;
+  private tiers: TierStore;
+  private usageMeter: UsageMeter;
+  private evolutionQueue: EvolutionJobQueue;
+  private evolutionHistory: EvolutionHistory;
+  private evolutionInsights: EvolutionInsights;
+  private evolutionScorer: EvolutionScorer;
   private isProcessing = false;
+  private stopRequested = false;
   private maxProcessingTime = 1000 * 60 * 5; // 5 minutes
   private processStartTime: number | null = null;
-
-  constructor(redis: Redis) {
+  private frameSinks = new Map<string, (frame: StreamFrame) => void>(); // Streaming callers by interaction
+  private maxToolIterations = 5;
+  private maxToolTime = 1000 * 30; // 30 seconds across all tool calls
+  private maxToolResultLength = 8000; // Characters fed back to the model
+  private personalContextWeight = Math.max(
+    0,
+    Math.min(1, parseFloat(process.env.CONTEXT_PERSONAL_WEIGHT || "0.5"))
+  ); // 0 = global context only, 1 = the user's own only
+
+  constructor(redis: Redis, llm: LlmRegistry = new LlmRegistry()) {
     super();
-    this.openai = new OpenAI();
+    this.llm = llm;
     this.redis = redis;
-    this.contextManager = new ContextManager(redis, this.openai);
-    this.memorySystem = new MemorySystem(redis, this.openai);
+    this.usageMeter = new UsageMeter(redis);
+    this.llm.meter(this.usageMeter);
+    this.evolutionHistory = new EvolutionHistory();
+    this.evolutionInsights = new EvolutionInsights();
+    this.evolutionScorer = new EvolutionScorer(redis, this.llm);
+    this.contextManager = new ContextManager(
+      redis,
+      this.llm,
+      this.evolutionHistory
+    );
+    this.tiers = new TierStore(redis);
+    this.memorySystem = new MemorySystem(
+      redis,
+      this.llm,
+      undefined,
+      async (userId) =>
+        TIER_FEATURES[await this.tiers.tierOf(userId)].longTermMemoryLimit
+    );
+    this.conversationStore = new Conversations();
     this.toolSystem = new ToolSystem(redis);
+    this.evolutionQueue = new EvolutionJobQueue(redis);
   }
 
-  private emitProgress(interactionId: string, update: ProgressUpdate) {
+  // Steps are also recorded on the trace, when given, to be stored with
+  // the interaction
+  private emitProgress(
+    interactionId: string,
+    update: ProgressUpdate,
+    trace?: InteractionTrace
+  ) {
+    trace?.steps.push({
+      stage: update.stage,
+      message: update.message,
+      progress: update.progress,
+      elapsedMs: Date.now() - trace.startedAt,
+    });
     this.emit("interactionProgress", {
       interactionId,
       ...update,
     });
+    this.emitFrame({ type: "progress", interactionId, ...update });
+  }
+
+  private emitFrame(frame: StreamFrame) {
+    this.frameSinks.get(frame.interactionId)?.(frame);
+    this.emit("interactionFrame", frame);
+  }
+
+  // Starts a new conversation unless conversationId names one of the user's
+  private async resolveConversation(
+    userId: string,
+    message: string,
+    conversationId?: string
+  ): Promise<string> {
+    const conversation = await this.conversationStore.resolve(
+      userId,
+      message,
+      conversationId
+    );
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    return conversation._id.toString();
   }
 
   async handleInteraction(
     userId: string,
-    message: string
+    message: string,
+    conversationId?: string
   ): Promise<InteractionResult> {
-    const processingSteps: ProgressUpdate[] = [];
     const interactionId = new mongoose.Types.ObjectId().toString();
+    return withUsageScope(this.interactionScope(userId, interactionId), () =>
+      this.runInteraction(interactionId, userId, message, conversationId)
+    );
+  }
+
+  // Every LLM call made for an interaction, including background scoring,
+  // is attributed to it and counted towards its totals
+  private interactionScope(userId: string, interactionId: string): UsageScope {
+    return { userId, interactionId, totals: newUsageTotals() };
+  }
+
+  private newTrace(): InteractionTrace {
+    return { startedAt: Date.now(), steps: [], toolCalls: [] };
+  }
+
+  private async runInteraction(
+    interactionId: string,
+    userId: string,
+    message: string,
+    conversationId?: string
+  ): Promise<InteractionResult> {
+    const trace = this.newTrace();
+    try {
+      const conversation = await this.resolveConversation(
+        userId,
+        message,
+        conversationId
+      );
+      const response = await this.generateResponse(
+        interactionId,
+        userId,
+        conversation,
+        message,
+        trace
+      );
+      return await this.finalizeInteraction(
+        interactionId,
+        userId,
+        conversation,
+        message,
+        response,
+        trace
+      );
+    } catch (error) {
+      this.emitProgress(interactionId, {
+        stage: "error",
+        message: "Error processing interaction",
+        progress: 0,
+        details: error,
+      });
+      throw error;
+    }
+  }
+
+  // Streams the response through onFrame and resolves once the response is
+  // complete; scoring and storage continue in the background
+  async streamInteraction(
+    userId: string,
+    message: string,
+    onFrame: (frame: StreamFrame) => void = () => {},
+    conversationId?: string
+  ): Promise<StreamedInteraction> {
+    const interactionId = new mongoose.Types.ObjectId().toString();
+    return withUsageScope(this.interactionScope(userId, interactionId), () =>
+      this.runStreamedInteraction(
+        interactionId,
+        userId,
+        message,
+        onFrame,
+        conversationId
+      )
+    );
+  }
 
+  private async runStreamedInteraction(
+    interactionId: string,
+    userId: string,
+    message: string,
+    onFrame: (frame: StreamFrame) => void,
+    conversationId?: string
+  ): Promise<StreamedInteraction> {
+    const trace = this.newTrace();
+    const conversation = await this.resolveConversation(
+      userId,
+      message,
+      conversationId
+    );
+
+    this.frameSinks.set(interactionId, onFrame);
+
+    let response: string;
     try {
-      // Start context gathering
+      response = await this.generateResponse(
+        interactionId,
+        userId,
+        conversation,
+        message,
+        trace,
+        (content) => this.emitFrame({ type: "token", interactionId, content })
+      );
+
+      this.emitFrame({ type: "done", interactionId, response });
+    } catch (error: any) {
+      this.emitFrame({ type: "error", interactionId, error: error.message });
       this.emitProgress(interactionId, {
+        stage: "error",
+        message: "Error processing interaction",
+        progress: 0,
+        details: error,
+      });
+      throw error;
+    } finally {
+      this.frameSinks.delete(interactionId);
+    }
+
+    const finalized = this.finalizeInteraction(
+      interactionId,
+      userId,
+      conversation,
+      message,
+      response,
+      trace
+    ).catch((error) => {
+      this.emitProgress(interactionId, {
+        stage: "error",
+        message: "Error processing interaction",
+        progress: 0,
+        details: error,
+      });
+      throw error;
+    });
+
+    return { interactionId, response, finalized };
+  }
+
+  private async generateResponse(
+    interactionId: string,
+    userId: string,
+    conversationId: string,
+    message: string,
+    trace: InteractionTrace,
+    onToken?: (content: string) => void
+  ): Promise<string> {
+    this.emitFrame({ type: "start", interactionId, userId, conversationId });
+
+    // Start context gathering
+    this.emitProgress(
+      interactionId,
+      {
         stage: "context",
         message: "Gathering context and memories...",
         progress: 10,
-      });
+      },
+      trace
+    );
 
-      const [context, memories] = await Promise.all([
-        this.getEnhancedEvolutionContext(),
-        this.memorySystem.getRelevantMemories(userId, message),
-      ]);
+    const [context, memories] = await Promise.all([
+      this.getEvolutionContext(userId),
+      this.memorySystem.getRelevantMemories(userId, conversationId, message),
+    ]);
+    trace.context = context;
+    trace.memories = memories;
 
-      this.emitProgress(interactionId, {
+    this.emitProgress(
+      interactionId,
+      {
         stage: "context",
         message: "Context gathered successfully",
         progress: 30,
@@ -86,98 +401,176 @@ export class VirusProtocolCore extends EventEmitter {
           shortTermMemories: memories.shortTerm.length,
           longTermMemories: memories.longTerm.length,
         },
-      });
+      },
+      trace
+    );
 
-      // Generate response
-      this.emitProgress(interactionId, {
+    // Generate response
+    this.emitProgress(
+      interactionId,
+      {
         stage: "response",
         message: "Generating AI response...",
         progress: 40,
-      });
-
-      const response = await this.getPrimaryAIResponse(userId, message);
-
-      this.emitProgress(interactionId, {
+      },
+      trace
+    );
+
+    const response = await this.getPrimaryAIResponse(
+      userId,
+      message,
+      context,
+      memories,
+      trace,
+      onToken
+    );
+    trace.respondedAt = Date.now();
+
+    this.emitProgress(
+      interactionId,
+      {
         stage: "response",
         message: "Response generated",
         progress: 60,
-      });
+        details: { toolCalls: trace.toolCalls.length },
+      },
+      trace
+    );
 
-      // Calculate evolution score
-      this.emitProgress(interactionId, {
+    return response;
+  }
+
+  private async finalizeInteraction(
+    interactionId: string,
+    userId: string,
+    conversationId: string,
+    message: string,
+    response: string,
+    trace: InteractionTrace
+  ): Promise<InteractionResult> {
+    // Calculate evolution score
+    this.emitProgress(
+      interactionId,
+      {
         stage: "evolution",
         message: "Calculating evolution score...",
         progress: 70,
-      });
+      },
+      trace
+    );
 
-      const evolutionScore = await this.calculateEvolutionScore(
+    // Scored against the context the response was generated with
+    const { score: evolutionScore, factors: evolutionFactors } =
+      await this.evolutionScorer.score(
         message,
-        response
+        response,
+        trace.context?.text || "",
+        { interactionId, updateBaseline: true }
       );
 
-      this.emitProgress(interactionId, {
+    this.emitProgress(
+      interactionId,
+      {
         stage: "evolution",
         message: "Evolution score calculated",
         progress: 80,
-        details: { score: evolutionScore },
-      });
+        details: { score: evolutionScore, factors: evolutionFactors },
+      },
+      trace
+    );
 
-      // Store interaction and update memories
-      this.emitProgress(interactionId, {
+    // Store interaction and update memories
+    this.emitProgress(
+      interactionId,
+      {
         stage: "storage",
         message: "Storing interaction and updating memories...",
         progress: 90,
-      });
+      },
+      trace
+    );
+
+    // Usage so far: the response, its tools and the scoring above
+    const usage = currentUsageScope().totals;
+    const now = Date.now();
+
+    const interaction = await Interaction.create({
+      _id: new mongoose.Types.ObjectId(interactionId),
+      userId,
+      conversationId,
+      message,
+      response,
+      timestamp: new Date(),
+      evolutionScore,
+      scoredAt: new Date(),
+      evolutionFactors,
+      context: trace.context && {
+        topics: trace.context.topics,
+        insights: trace.context.insights,
+        contextVersion: trace.context.version,
+        personalContextVersion: trace.context.personalVersion,
+      },
+      // Short-term memories are referenced by the interaction they came
+      // from; older entries without one by their timestamp
+      memoryReferences: trace.memories && {
+        shortTerm: trace.memories.shortTerm.map(
+          (m) => m.interactionId || new Date(m.timestamp).toISOString()
+        ),
+        longTerm: trace.memories.longTerm.map((m) => m.id),
+      },
+      toolCalls: trace.toolCalls,
+      processingSteps: trace.steps,
+      metadata: {
+        processingTime: now - trace.startedAt,
+        tokenCount: usage?.totalTokens,
+        modelVersion: usage?.models.primary || this.llm.for("primary").model,
+        responseLatency: (trace.respondedAt || now) - trace.startedAt,
+      },
+    });
 
-      const interaction = await mongoose.model("Interaction").create({
-        _id: new mongoose.Types.ObjectId(interactionId),
+    // Update memories
+    await Promise.all([
+      this.memorySystem.addToShortTerm(
         userId,
-        message,
-        response,
-        timestamp: new Date(),
-        evolutionScore,
-        processingSteps,
-      });
-
-      // Update memories
-      await Promise.all([
-        this.memorySystem.addToShortTerm(userId, {
+        conversationId,
+        {
           role: "user",
           content: message,
           timestamp: new Date(),
-        }),
-        this.memorySystem.addToShortTerm(userId, {
+          interactionId,
+        },
+        {
           role: "assistant",
           content: response,
           timestamp: new Date(),
-        }),
-      ]);
+          interactionId,
+        }
+      ),
+      this.conversationStore.recordMessage(conversationId),
+    ]);
 
-      await this.queueForEvolution(interaction._id);
+    await this.contextManager.recordInteraction(userId);
+    await this.queueForEvolution(interaction._id, userId);
 
-      this.emitProgress(interactionId, {
+    this.emitProgress(
+      interactionId,
+      {
         stage: "complete",
         message: "Interaction processed successfully",
         progress: 100,
-      });
+      },
+      trace
+    );
 
-      return {
-        id: interaction._id.toString(),
-        message,
-        response,
-        timestamp: interaction.timestamp,
-        evolutionScore,
-        processingSteps,
-      };
-    } catch (error) {
-      this.emitProgress(interactionId, {
-        stage: "error",
-        message: "Error processing interaction",
-        progress: 0,
-        details: error,
-      });
-      throw error;
-    }
+    return {
+      id: interaction._id.toString(),
+      conversationId,
+      message,
+      response,
+      timestamp: interaction.timestamp,
+      evolutionScore,
+      processingSteps: trace.steps,
+    };
   }
 
   private async getSystemState(): Promise<string> {
@@ -205,18 +598,42 @@ ${
 
   private async getPrimaryAIResponse(
     userId: string,
-    message: string
+    message: string,
+    context: EvolutionContext,
+    memories: { shortTerm: ShortTermMemory[]; longTerm: LongTermMemory[] },
+    trace: InteractionTrace,
+    onToken?: (content: string) => void
   ): Promise<string> {
     // Fix #1: Add stats to Promise.all
-    const [context, memories, systemState, stats] = await Promise.all([
-      this.getEnhancedEvolutionContext(),
-      this.memorySystem.getRelevantMemories(userId, message),
+    const [systemState, stats, insights, tier] = await Promise.all([
       this.getSystemState(),
       this.getSystemStats(),
+      this.evolutionInsights.promptSummary(),
+      this.tiers.tierOf(userId),
     ]);
+    const toolContext: ToolContext = { userId, features: TIER_FEATURES[tier] };
 
     // Get available tools
     const tools = this.toolSystem.getToolDescriptions();
+    const provider = this.llm.for("primary");
+
+    const toolInstructions = provider.supportsTools
+      ? `Call the provided functions to use a tool. You can call several tools at once and will see their results before answering.`
+      : `To use a tool, respond with: [USE_TOOL]{{tool_name}}|{{args as JSON}}[/USE_TOOL]
+    Example: [USE_TOOL]analyzeToken|{"tokenAddress":"7NwukWynkZap56CRwPjxde2HY7z4nFNzzVYTQ96Lpump"}[/USE_TOOL]
+
+    You can use multiple tools in one response.`;
+
+    // Function calling sends the argument schemas with the tools; tag users
+    // only learn them from the prompt
+    const toolList = tools
+      .map((t) =>
+        provider.supportsTools
+          ? `- ${t.name}: ${t.description}`
+          : `- ${t.name}: ${t.description}
+      Arguments (JSON schema): ${JSON.stringify(t.parameters)}`
+      )
+      .join("\n");
 
     const systemPrompt = `You are called Virus Protocol, an evolving AI entity that interacts with users to learn.
 
@@ -230,8 +647,8 @@ ${
          this.memorySystem.shortTermLimit
        } messages)
        - Long-term memory: Stores important patterns and insights (${
-         this.memorySystem.longTermLimit
-       } items)
+         TIER_FEATURES[tier].longTermMemoryLimit
+       } items for this user)
        - Memory types: facts, concepts, patterns
        - Automated importance scoring for long-term retention
        
@@ -259,12 +676,9 @@ ${
     ${systemState}
 
     Available Tools:
-    ${tools.map((t) => `- ${t.name}: ${t.description}`).join("\n")}
-
-    To use a tool, respond with: [USE_TOOL]{{tool_name}}|{{args as JSON}}[/USE_TOOL]
-    Example: [USE_TOOL]analyzeToken|{"tokenAddress":"7NwukWynkZap56CRwPjxde2HY7z4nFNzzVYTQ96Lpump"}[/USE_TOOL]
+    ${toolList}
 
-    You can use multiple tools in one response. Always use tools when asked about:
+    ${toolInstructions} Always use tools when asked about:
     - Token metrics and analysis
     - Wallet analysis
     - Transaction details
@@ -274,7 +688,10 @@ ${
     User ID: ${userId}
     
     Evolution Context:
-    ${context}
+    ${context.text}
+
+    Evolution Insights:
+    ${insights}
     
     Recent Conversation History:
     ${memories.shortTerm
@@ -298,59 +715,278 @@ ${
     2. Evolution based on previous conversations and interactions
     3. On-chain analysis tools for real-time data`;
 
-    // First get AI's initial response
-    const completion = await this.openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: systemPrompt },
-        ...memories.shortTerm.map((m) => ({
-          role: m.role,
-          content: m.content,
-        })),
-        { role: "user", content: message },
-      ],
+    const messages: LlmMessage[] = [
+      { role: "system", content: systemPrompt },
+      ...memories.shortTerm.map((m) => ({
+        role: m.role,
+        content: m.content,
+      })),
+      { role: "user", content: message },
+    ];
+    const options = {
       temperature: 0.8,
-      presence_penalty: 0.6,
-      frequency_penalty: 0.3,
+      presencePenalty: 0.6,
+      frequencyPenalty: 0.3,
+    };
+
+    if (provider.supportsTools) {
+      return this.runToolLoop(
+        provider,
+        messages,
+        { ...options, tools },
+        toolContext,
+        trace,
+        onToken
+      );
+    }
+
+    // Legacy tag syntax for providers without function calling
+    if (!onToken) {
+      const completion = await provider.chat(messages, options);
+      return this.substituteToolTags(
+        (async function* () {
+          yield completion.content;
+        })(),
+        toolContext,
+        trace
+      );
+    }
+
+    return this.substituteToolTags(
+      (async function* () {
+        for await (const chunk of provider.stream(messages, options)) {
+          yield chunk.content;
+        }
+      })(),
+      toolContext,
+      trace,
+      onToken
+    );
+  }
+
+  // Multi-turn function calling: tool results are fed back to the model
+  // until it answers without requesting tools or a limit is reached
+  private async runToolLoop(
+    provider: LlmProvider,
+    messages: LlmMessage[],
+    options: LlmChatOptions,
+    toolContext: ToolContext,
+    trace: InteractionTrace,
+    onToken?: (content: string) => void
+  ): Promise<string> {
+    const deadline = Date.now() + this.maxToolTime;
+    let response = "";
+
+    for (let iteration = 0; ; iteration++) {
+      // Out of budget: ask for a final answer with tools withheld
+      const toolsAllowed =
+        iteration < this.maxToolIterations && Date.now() < deadline;
+
+      const turn = await this.completeTurn(
+        provider,
+        messages,
+        toolsAllowed ? options : { ...options, tools: undefined },
+        onToken
+      );
+      response += turn.content;
+
+      if (!toolsAllowed || !turn.toolCalls?.length) {
+        return response;
+      }
+
+      messages.push({
+        role: "assistant",
+        content: turn.content,
+        toolCalls: turn.toolCalls,
+      });
+
+      const results = await Promise.all(
+        turn.toolCalls.map((call) =>
+          this.runToolCall(call, toolContext, trace, deadline)
+        )
+      );
+
+      turn.toolCalls.forEach((call, index) => {
+        messages.push({
+          role: "tool",
+          toolCallId: call.id,
+          content: results[index],
+        });
+      });
+    }
+  }
+
+  private async completeTurn(
+    provider: LlmProvider,
+    messages: LlmMessage[],
+    options: LlmChatOptions,
+    onToken?: (content: string) => void
+  ): Promise<{ content: string; toolCalls?: LlmToolCall[] }> {
+    if (!onToken) {
+      return provider.chat(messages, options);
+    }
+
+    let content = "";
+    let toolCalls: LlmToolCall[] | undefined;
+    for await (const chunk of provider.stream(messages, options)) {
+      if (chunk.content) {
+        content += chunk.content;
+        onToken(chunk.content);
+      }
+      toolCalls = chunk.toolCalls || toolCalls;
+    }
+
+    return { content, toolCalls };
+  }
+
+  // Returns the tool result serialized for the model
+  private async runToolCall(
+    call: LlmToolCall,
+    toolContext: ToolContext,
+    trace: InteractionTrace,
+    deadline: number
+  ): Promise<string> {
+    const startedAt = Date.now();
+    let args: any;
+    try {
+      args = JSON.parse(call.arguments || "{}");
+    } catch (error: any) {
+      const result: ToolResult = {
+        success: false,
+        data: null,
+        error: `Invalid arguments: ${error.message}`,
+      };
+      this.recordToolCall(trace, call.name, call.arguments, result, startedAt);
+      return JSON.stringify(result);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<ToolResult>((resolve) => {
+      timer = setTimeout(
+        () =>
+          resolve({
+            success: false,
+            data: null,
+            error: "Tool time budget exceeded",
+          }),
+        Math.max(0, deadline - Date.now())
+      );
     });
 
-    let response = completion.choices[0].message.content || "";
+    const result = await Promise.race([
+      this.toolSystem.executeTool(call.name, args, toolContext),
+      timeout,
+    ]);
+    clearTimeout(timer);
+    this.recordToolCall(trace, call.name, args, result, startedAt);
+
+    return JSON.stringify(result).slice(0, this.maxToolResultLength);
+  }
 
-    // Tool Handling
-    const toolPattern = /\[USE_TOOL\](.*?)\|(.*?)\[\/USE_TOOL\]/g;
-    const toolMatches = [...response.matchAll(toolPattern)];
+  private recordToolCall(
+    trace: InteractionTrace,
+    name: string,
+    args: unknown,
+    result: ToolResult,
+    startedAt: number
+  ) {
+    trace.toolCalls.push({
+      name,
+      arguments: args,
+      success: result.success,
+      error: result.error,
+      durationMs: Date.now() - startedAt,
+    });
+  }
 
-    for (const match of toolMatches) {
-      const [fullMatch, toolName, argsStr] = match;
-      try {
-        const args = JSON.parse(argsStr);
-        const result = await this.toolSystem.executeTool(toolName, args);
-        const formattedResponse = await this.handleToolResponse(
-          toolName,
-          result
-        );
+  // Replaces [USE_TOOL] tags with tool output as text arrives. Text that may
+  // be the start of a tag is held back so streamed tokens never contain
+  // raw tool syntax.
+  private async substituteToolTags(
+    chunks: AsyncIterable<string>,
+    toolContext: ToolContext,
+    trace: InteractionTrace,
+    onToken: (content: string) => void = () => {}
+  ): Promise<string> {
+    const toolPattern = /\[USE_TOOL\](.*?)\|(.*?)\[\/USE_TOOL\]/;
+    const openTag = "[USE_TOOL]";
+    let response = "";
+    let pending = "";
+
+    const emit = (text: string) => {
+      if (!text) return;
+      response += text;
+      onToken(text);
+    };
+
+    for await (const chunk of chunks) {
+      pending += chunk;
 
-        response = response.replace(fullMatch, formattedResponse);
+      let match: RegExpMatchArray | null;
+      while ((match = pending.match(toolPattern))) {
+        const [fullMatch, toolName, argsStr] = match;
+        emit(pending.slice(0, match.index));
+        emit(await this.runToolTag(toolName, argsStr, toolContext, trace));
+        pending = pending.slice(match.index! + fullMatch.length);
+      }
 
-        if (!result.success) {
-          await this.contextManager.generateContextSummary();
+      // Hold back an open tag, or a trailing partial "[USE_TOOL"
+      let holdFrom = pending.indexOf(openTag);
+      if (holdFrom === -1) {
+        holdFrom = pending.length;
+        for (
+          let i = Math.max(0, pending.length - openTag.length);
+          i < pending.length;
+          i++
+        ) {
+          if (openTag.startsWith(pending.slice(i))) {
+            holdFrom = i;
+            break;
+          }
         }
-      } catch (error: any) {
-        response = response.replace(
-          fullMatch,
-          `Error processing tool request: ${error.message}`
-        );
       }
+
+      emit(pending.slice(0, holdFrom));
+      pending = pending.slice(holdFrom);
     }
 
+    // Unterminated tags are passed through as-is
+    emit(pending);
     return response;
   }
+
+  private async runToolTag(
+    toolName: string,
+    argsStr: string,
+    toolContext: ToolContext,
+    trace: InteractionTrace
+  ): Promise<string> {
+    const startedAt = Date.now();
+    try {
+      const args = JSON.parse(argsStr);
+      const result = await this.toolSystem.executeTool(
+        toolName,
+        args,
+        toolContext
+      );
+      this.recordToolCall(trace, toolName, args, result, startedAt);
+      return await this.handleToolResponse(toolName, result);
+    } catch (error: any) {
+      return `Error processing tool request: ${error.message}`;
+    }
+  }
+
   private async handleToolResponse(
     toolName: string,
     result: ToolResult
   ): Promise<string> {
     if (!result.success) {
-      return `Error using ${toolName}: ${result.error}`;
+      const details = result.validationErrors
+        ?.map((e) => `${e.path}: ${e.message}`)
+        .join(", ");
+      return `Error using ${toolName}: ${result.error}${
+        details ? ` (${details})` : ""
+      }`;
     }
 
     if (toolName === "analyzeWallet") {
@@ -384,14 +1020,14 @@ ${
   
       Technical Data: ${JSON.stringify(result.data)}`;
 
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "system", content: prompt }],
-        temperature: 0.7,
-        max_tokens: 500,
-      });
+      const completion = await this.llm
+        .for("toolSummary")
+        .chat([{ role: "system", content: prompt }], {
+          temperature: 0.7,
+          maxTokens: 500,
+        });
 
-      return completion.choices[0].message.content || "";
+      return completion.content;
     }
 
     // Special handling for token analysis
@@ -422,20 +1058,52 @@ ${
   
       Technical Data: ${JSON.stringify(result.data)}`;
 
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "system", content: prompt }],
-        temperature: 0.7,
-        max_tokens: 500,
-      });
+      const completion = await this.llm
+        .for("toolSummary")
+        .chat([{ role: "system", content: prompt }], {
+          temperature: 0.7,
+          maxTokens: 500,
+        });
 
-      return completion.choices[0].message.content || "";
+      return completion.content;
     }
 
     // Handle other tool responses
     return JSON.stringify(result.data, null, 2);
   }
 
+  public get conversations(): Conversations {
+    return this.conversationStore;
+  }
+
+  public get memory(): MemorySystem {
+    return this.memorySystem;
+  }
+
+  public get evolutionJobs(): EvolutionJobQueue {
+    return this.evolutionQueue;
+  }
+
+  public get scorer(): EvolutionScorer {
+    return this.evolutionScorer;
+  }
+
+  public get insights(): EvolutionInsights {
+    return this.evolutionInsights;
+  }
+
+  public get versions(): EvolutionHistory {
+    return this.evolutionHistory;
+  }
+
+  public get usage(): UsageMeter {
+    return this.usageMeter;
+  }
+
+  public get context(): ContextManager {
+    return this.contextManager;
+  }
+
   // Add a method to get available tools
   async getAvailableTools() {
     return this.toolSystem.getToolDescriptions();
@@ -446,68 +1114,253 @@ ${
     return this.toolSystem.clearToolCache();
   }
 
-  private async calculateEvolutionScore(
-    message: string,
-    response: string
-  ): Promise<number> {
-    try {
-      const context = await this.getEnhancedEvolutionContext();
-
-      const scoring = await this.openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `Score this interaction's evolutionary value from 0-1 based on:
-            - Novelty: How unique is this interaction?
-            - Complexity: How sophisticated is the exchange?
-            - Context Alignment: How well does it align with the current context:
-              ${context}
-            - Knowledge Integration: How well does it build on existing knowledge?
-            
-            Respond with only a number between 0 and 1.`,
-          },
-          {
-            role: "user",
-            content: `Message: ${message}\nResponse: ${response}`,
+  // Recombines stored factors with the current weights. Interactions scored
+  // before factors were recorded are sent back to the model only when
+  // recomputeFactors is set.
+  async rescoreInteractions(options: {
+    since?: Date;
+    limit: number;
+    recomputeFactors?: boolean;
+  }): Promise<{ rescored: number; recomputed: number; skipped: number }> {
+    const weights = await this.evolutionScorer.getWeights();
+    const filter = options.since ? { timestamp: { $gte: options.since } } : {};
+    const context = options.recomputeFactors
+      ? (await this.getEvolutionContext()).text
+      : "";
+
+    let rescored = 0;
+    let recomputed = 0;
+    let skipped = 0;
+    const updates: mongoose.AnyBulkWriteOperation[] = [];
+
+    const cursor = Interaction.find(filter)
+      .sort({ timestamp: -1 })
+      .limit(options.limit)
+      .select("message response evolutionFactors")
+      .lean()
+      .cursor();
+
+    for await (const interaction of cursor) {
+      let factors: Partial<EvolutionFactors> =
+        interaction.evolutionFactors || {};
+
+      if (Object.keys(factors).length === 0) {
+        if (!options.recomputeFactors) {
+          skipped++;
+          continue;
+        }
+        // System usage: an admin's re-score doesn't count against the
+        // quota of the interaction's user
+        const interactionId = interaction._id.toString();
+        factors = (
+          await withUsageScope({ interactionId }, () =>
+            this.evolutionScorer.score(
+              interaction.message,
+              interaction.response,
+              context,
+              { interactionId }
+            )
+          )
+        ).factors;
+        recomputed++;
+      }
+
+      updates.push({
+        updateOne: {
+          filter: { _id: interaction._id },
+          update: {
+            $set: {
+              evolutionFactors: factors,
+              evolutionScore: this.evolutionScorer.combine(factors, weights),
+              scoredAt: new Date(),
+            },
           },
-        ],
-        temperature: 0.3,
+        },
       });
+      rescored++;
 
-      const score = parseFloat(scoring.choices[0].message.content || "0.5");
-      return isNaN(score) ? 0.5 : Math.max(0, Math.min(1, score));
-    } catch (error) {
-      console.error("Error calculating evolution score:", error);
-      return 0.5;
+      if (updates.length >= 500) {
+        await Interaction.bulkWrite(updates.splice(0));
+      }
     }
+
+    if (updates.length > 0) {
+      await Interaction.bulkWrite(updates);
+    }
+
+    return { rescored, recomputed, skipped };
   }
 
-  private async getEnhancedEvolutionContext(): Promise<string> {
+  // A stored interaction with what shaped it: the snapshot of the global
+  // context it was answered with, the recalled long-term memories that
+  // still exist and every LLM call made for it
+  async getInteractionDetail(id: string) {
+    if (!mongoose.isValidObjectId(id)) return null;
+    const interaction = await Interaction.findById(id).lean();
+    if (!interaction) return null;
+
+    const contextVersion = interaction.context?.contextVersion;
+    const [contextSnapshot, longTermMemories, calls] = await Promise.all([
+      contextVersion !== undefined && contextVersion !== null
+        ? this.evolutionHistory.get("context", contextVersion)
+        : null,
+      this.memorySystem.getLongTerm(
+        interaction.userId,
+        interaction.memoryReferences?.longTerm || []
+      ),
+      this.usageMeter.forInteraction(id),
+    ]);
+
+    const totals = calls.reduce(
+      (sum, call) => ({
+        promptTokens: sum.promptTokens + call.promptTokens,
+        completionTokens: sum.completionTokens + call.completionTokens,
+        totalTokens: sum.totalTokens + call.totalTokens,
+        cost: sum.cost + call.cost,
+      }),
+      { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 }
+    );
+
+    return {
+      ...interaction,
+      contextSnapshot,
+      longTermMemories,
+      usage: { calls, totals },
+    };
+  }
+
+  private async refreshedContext(
+    userId?: string
+  ): Promise<ContextSummary | null> {
     // Check if we need to update the context
-    if (await this.contextManager.shouldUpdateContext()) {
-      await this.contextManager.generateContextSummary();
+    if (await this.contextManager.shouldUpdateContext(userId)) {
+      await this.contextManager.generateContextSummary(userId);
     }
 
-    const context = await this.contextManager.getContext();
-    if (!context) {
-      return "Standard operation mode";
+    return this.contextManager.getContext(userId);
+  }
+
+  // Blends the global context with the user's own; personalContextWeight
+  // decides which summaries are included and how topics and insights are
+  // shared out
+  private async getEvolutionContext(
+    userId?: string
+  ): Promise<EvolutionContext> {
+    const weight = userId ? this.personalContextWeight : 0;
+    const [global, personal] = await Promise.all([
+      weight < 1 ? this.refreshedContext() : null,
+      weight > 0 ? this.refreshedContext(userId) : null,
+    ]);
+
+    if (!global && !personal) {
+      return { text: "Standard operation mode", topics: [], insights: [] };
     }
 
-    return `
-      Context Summary: ${context.summary}
+    const blend = (
+      own: string[] = [],
+      shared: string[] = [],
+      limit: number
+    ) => {
+      const ownCount = Math.max(
+        Math.round(limit * weight),
+        limit - shared.length
+      );
+      return [...new Set([...own.slice(0, ownCount), ...shared, ...own])].slice(
+        0,
+        limit
+      );
+    };
+
+    const topics = blend(personal?.topics, global?.topics, 5);
+    const insights = blend(personal?.keyInsights, global?.keyInsights, 3);
+
+    const text = `
+      ${global ? `Context Summary: ${global.summary}` : ""}
+      ${personal ? `Personal Context: ${personal.summary}` : ""}
       
-      Key Topics: ${context.topics.join(", ")}
+      Key Topics: ${topics.join(", ")}
       
-      Recent Insights: ${context.keyInsights.join(" | ")}
+      Recent Insights: ${insights.join(" | ")}
       
-      Context Version: ${context.version}
+      Context Version: ${[
+        global && `${global.version}`,
+        personal && `personal ${personal.version}`,
+      ]
+        .filter(Boolean)
+        .join(", ")}
     `;
+
+    return {
+      text,
+      topics,
+      insights,
+      version: global?.version,
+      personalVersion: personal?.version,
+    };
   }
 
-  private async queueForEvolution(interactionId: mongoose.Types.ObjectId) {
-    await this.redis.lpush("evolution_queue", interactionId.toString());
+  private async queueForEvolution(
+    interactionId: mongoose.Types.ObjectId,
+    userId: string
+  ) {
+    const job = await EvolutionQueue.create({
+      userId,
+      interactionId: interactionId.toString(),
+    });
+    await this.evolutionQueue.enqueue(interactionId.toString());
+
     this.emit("queuedForEvolution", interactionId);
+    this.emitEvolutionProgress([job]);
+  }
+
+  // Applies a status change to the jobs of the given interactions and
+  // publishes the new state to their owners
+  private async updateEvolutionJobs(
+    interactionIds: string[],
+    update: {
+      status: EvolutionProgress["status"];
+      progress: number;
+      error?: string;
+      result?: unknown;
+    }
+  ) {
+    if (interactionIds.length === 0) return;
+
+    const { error, ...fields } = update;
+    await EvolutionQueue.updateMany(
+      { interactionId: { $in: interactionIds } },
+      error
+        ? { $set: { ...fields, error } }
+        : { $set: fields, $unset: { error: 1 } }
+    );
+
+    const jobs = await EvolutionQueue.find(
+      { interactionId: { $in: interactionIds } },
+      { result: 0 }
+    );
+    this.emitEvolutionProgress(jobs);
+  }
+
+  private emitEvolutionProgress(
+    jobs: {
+      _id: mongoose.Types.ObjectId;
+      interactionId: string;
+      userId: string;
+      status?: string | null;
+      progress?: number | null;
+      error?: string | null;
+    }[]
+  ) {
+    jobs.forEach((job) =>
+      this.emit("evolutionProgress", {
+        jobId: job._id.toString(),
+        interactionId: job.interactionId,
+        userId: job.userId,
+        status: (job.status || "pending") as EvolutionProgress["status"],
+        progress: job.progress || 0,
+        error: job.error || undefined,
+      } satisfies EvolutionProgress)
+    );
   }
 
   async getSystemStats(): Promise<SystemStats> {
@@ -523,7 +1376,7 @@ ${
           .model("Interaction")
           .distinct("userId")
           .then((users) => users.length),
-        this.redis.llen("evolution_queue"),
+        this.evolutionQueue.pendingCount(),
       ]);
 
     return {
@@ -541,11 +1394,19 @@ ${
     }
 
     this.isProcessing = true;
+    this.stopRequested = false;
     this.processStartTime = Date.now();
     const batchSize = 10;
     let processedCount = 0;
 
     try {
+      const { reclaimed, promoted } = await this.evolutionQueue.recover();
+      if (reclaimed || promoted) {
+        console.log(
+          `Recovered ${reclaimed} stalled and ${promoted} retried interactions`
+        );
+      }
+
       while (true) {
         // Check processing time limit
         if (Date.now() - this.processStartTime > this.maxProcessingTime) {
@@ -555,24 +1416,39 @@ ${
           break;
         }
 
-        const interactionIds = await this.redis.lrange(
-          "evolution_queue",
-          0,
-          batchSize - 1
-        );
+        // Pausing takes effect between batches, in this or any other process
+        if (this.stopRequested || (await this.evolutionQueue.isPaused())) {
+          console.log("Evolution processing paused");
+          break;
+        }
 
-        if (interactionIds.length === 0) break;
+        const interactionIds = await this.evolutionQueue.reserve(batchSize);
 
-        await this.redis.ltrim("evolution_queue", batchSize, -1);
+        if (interactionIds.length === 0) break;
 
         try {
           await this.processEvolutionBatch(interactionIds);
+          await this.evolutionQueue.ack(interactionIds);
           processedCount += interactionIds.length;
         } catch (error) {
           console.error("Error processing evolution batch:", error);
-          // Re-queue failed items
-          await this.redis.rpush("evolution_queue", ...interactionIds);
-          // Add exponential backoff or circuit breaker here if needed
+          // Retried with backoff, dead-lettered once out of attempts
+          const message =
+            error instanceof Error ? error.message : String(error);
+          const { retried, deadLettered } = await this.evolutionQueue.fail(
+            interactionIds,
+            error
+          );
+          await this.updateEvolutionJobs(retried, {
+            status: "pending",
+            progress: 0,
+            error: message,
+          });
+          await this.updateEvolutionJobs(deadLettered, {
+            status: "failed",
+            progress: 0,
+            error: message,
+          });
           break;
         }
 
@@ -591,10 +1467,15 @@ ${
 
   // Add method to check queue status
   async getQueueStatus() {
-    const queueLength = await this.redis.llen("evolution_queue");
+    const [stages, paused] = await Promise.all([
+      this.evolutionQueue.stats(),
+      this.evolutionQueue.isPaused(),
+    ]);
     return {
       isProcessing: this.isProcessing,
-      queueLength,
+      paused,
+      queueLength: stages.ready + stages.processing + stages.delayed,
+      stages,
       processStartTime: this.processStartTime,
       estimatedTimeRemaining: this.processStartTime
         ? Math.max(
@@ -605,25 +1486,87 @@ ${
     };
   }
 
+  // Re-enqueues interactions stored in Mongo but missing from the queue
+  async reconcileEvolutionQueue() {
+    const requeued = await this.evolutionQueue.reconcile();
+    if (requeued.length === 0) return 0;
+
+    // Interactions queued before jobs were tracked have no record yet
+    const interactions = await mongoose
+      .model("Interaction")
+      .find({ _id: { $in: requeued } }, { userId: 1 });
+    await EvolutionQueue.bulkWrite(
+      interactions.map((interaction) => ({
+        updateOne: {
+          filter: { interactionId: interaction._id.toString() },
+          update: {
+            $setOnInsert: {
+              userId: interaction.userId,
+              interactionId: interaction._id.toString(),
+            },
+          },
+          upsert: true,
+        },
+      }))
+    );
+    await this.updateEvolutionJobs(requeued, {
+      status: "pending",
+      progress: 0,
+    });
+
+    console.log(`Re-enqueued ${requeued.length} unprocessed interactions`);
+    return requeued.length;
+  }
+
+  // Gives dead-lettered interactions another round of attempts
+  async requeueDeadEvolutions(interactionIds?: string[]) {
+    const requeued =
+      await this.evolutionQueue.requeueDeadLetters(interactionIds);
+    await this.updateEvolutionJobs(requeued, {
+      status: "pending",
+      progress: 0,
+    });
+    return requeued.length;
+  }
+
   // Add method to pause/resume processing
   async toggleProcessing(shouldProcess: boolean) {
-    if (shouldProcess && !this.isProcessing) {
-      this.processEvolutionQueue();
-    } else if (!shouldProcess) {
-      this.isProcessing = false;
+    if (shouldProcess) {
+      await this.evolutionQueue.resume();
+      if (!this.isProcessing) {
+        this.processEvolutionQueue();
+      }
+    } else {
+      await this.evolutionQueue.pause();
+      this.stopProcessing();
+    }
+  }
+
+  // Ends this process's pass after the current batch without pausing others
+  stopProcessing() {
+    if (this.isProcessing) {
+      this.stopRequested = true;
     }
   }
 
   private async processEvolutionBatch(interactionIds: string[]) {
+    await this.updateEvolutionJobs(interactionIds, {
+      status: "processing",
+      progress: 10,
+    });
+
     const interactions = await mongoose.model("Interaction").find({
       _id: { $in: interactionIds.map((id) => new mongoose.Types.ObjectId(id)) },
     });
 
-    const context = await this.getEnhancedEvolutionContext();
+    const context = (await this.getEvolutionContext()).text;
+    await this.updateEvolutionJobs(interactionIds, {
+      status: "processing",
+      progress: 30,
+    });
 
-    const evolution = await this.openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
+    const analysis = await this.llm.for("evolutionAnalysis").structured(
+      [
         {
           role: "system",
           content: `Analyze these interactions for evolution patterns and insights.
@@ -635,29 +1578,156 @@ ${
           3. Interaction complexity trends
           4. Areas of potential growth
           
-          Format the analysis as:
-          PATTERNS: pattern1 | pattern2 | pattern3
-          DEVELOPMENT: development1 | development2
-          RECOMMENDATIONS: recommendation1 | recommendation2`,
+          Return up to 5 patterns, 3 developments and 3 recommendations, each a
+          short phrase with the ids of the interactions that show it.`,
         },
         {
           role: "user",
-          content: JSON.stringify(interactions),
+          content: JSON.stringify(
+            interactions.map((i) => ({
+              id: i._id.toString(),
+              message: i.message,
+              response: i.response,
+              evolutionScore: i.evolutionScore,
+            }))
+          ),
         },
       ],
+      evolutionAnalysisSchema,
+      "evolution_analysis"
+    );
+
+    await this.evolutionInsights.record(analysis, interactionIds);
+    const evolutionData = this.evolutionInsights.format(analysis);
+    await this.updateEvolutionJobs(interactionIds, {
+      status: "processing",
+      progress: 70,
+    });
+    await this.updateEvolutionState(evolutionData, interactionIds);
+
+    await this.updateEvolutionJobs(interactionIds, {
+      status: "completed",
+      progress: 100,
+      result: {
+        analysis,
+        batchSize: interactions.length,
+        completedAt: new Date(),
+      },
     });
-
-    const evolutionData = evolution.choices[0].message.content;
-    await this.updateEvolutionState(evolutionData);
-
-    // Trigger context update after evolution processing
-    await this.contextManager.generateContextSummary();
   }
 
-  private async updateEvolutionState(evolutionData: string | null) {
+  private async updateEvolutionState(
+    evolutionData: string | null,
+    interactionIds: string[]
+  ) {
     if (!evolutionData) return;
 
+    await this.evolutionHistory.record(
+      "evolution",
+      { analysis: evolutionData },
+      { interactionIds }
+    );
     await this.redis.set("current_evolution_state", evolutionData);
     this.emit("evolutionUpdated", evolutionData);
   }
+
+  // Deletes a conversation along with its interactions, their evolution
+  // records and the conversation's short-term memory. Returns null when the
+  // conversation isn't the user's.
+  async deleteConversation(
+    userId: string,
+    conversationId: string
+  ): Promise<{ interactions: number } | null> {
+    const conversation = await this.conversationStore.get(
+      userId,
+      conversationId
+    );
+    if (!conversation) return null;
+
+    const interactionIds = (
+      await Interaction.find({ userId, conversationId }).select("_id").lean()
+    ).map((doc) => doc._id.toString());
+
+    const [interactions] = await Promise.all([
+      Interaction.deleteMany({ userId, conversationId }),
+      EvolutionQueue.deleteMany({ interactionId: { $in: interactionIds } }),
+      this.evolutionQueue.remove(interactionIds),
+      this.memorySystem.clearShortTerm(userId, conversationId),
+    ]);
+    // Contexts are rebuilt from what remains
+    await this.forgetInteractions(interactionIds);
+    await this.conversationStore.remove(userId, conversationId);
+
+    return { interactions: interactions.deletedCount };
+  }
+
+  // Removes what was derived from deleted interactions: versions are
+  // redacted, insights deleted, the novelty baseline trimmed and contexts
+  // covering them rebuilt. When the live evolution state came from a
+  // redacted version it falls back to the newest intact one.
+  async forgetInteractions(interactionIds: string[]): Promise<{
+    redactedVersions: number;
+    deletedInsights: number;
+    noveltyBaseline: number;
+    rebuiltContexts: number;
+  }> {
+    const [redactedVersions, deletedInsights, noveltyBaseline] =
+      await Promise.all([
+        this.evolutionHistory.forgetInteractions(interactionIds),
+        this.evolutionInsights.forgetInteractions(interactionIds),
+        this.evolutionScorer.forgetInteractions(interactionIds),
+      ]);
+    // After the redaction, so rebuilt context versions aren't redacted too
+    const rebuiltContexts =
+      await this.contextManager.forgetInteractions(interactionIds);
+
+    if (redactedVersions > 0) {
+      const latest = await this.evolutionHistory.latest("evolution");
+      if (latest?.redacted) {
+        const intact = await this.evolutionHistory.latestIntact("evolution");
+        if (intact?.analysis) {
+          await this.redis.set("current_evolution_state", intact.analysis);
+        } else {
+          await this.redis.del("current_evolution_state");
+        }
+        this.emit("evolutionUpdated", intact?.analysis || "");
+      }
+    }
+
+    return {
+      redactedVersions,
+      deletedInsights,
+      noveltyBaseline,
+      rebuiltContexts,
+    };
+  }
+
+  // Restores an earlier evolution state or context summary as the live one.
+  // Returns null when the version doesn't exist or was redacted.
+  async rollbackVersion(
+    kind: VersionKind,
+    version: number,
+    restoredBy: string
+  ): Promise<VersionRecord | null> {
+    const target = await this.evolutionHistory.get(kind, version);
+    if (!target || target.redacted) return null;
+
+    if (kind === "context") {
+      await this.contextManager.restoreSummary(target, restoredBy);
+    } else {
+      await this.evolutionHistory.record(
+        "evolution",
+        { analysis: target.analysis },
+        {
+          interactionIds: target.interactionIds,
+          restoredFrom: target.version,
+          createdBy: restoredBy,
+        }
+      );
+      await this.redis.set("current_evolution_state", target.analysis || "");
+      this.emit("evolutionUpdated", target.analysis);
+    }
+
+    return this.evolutionHistory.latest(kind);
+  }
 }
@@ -0,0 +1,102 @@
+// src/services/walletAuth.ts
+import { PublicKey } from "@solana/web3.js";
+import { Redis } from "ioredis";
+import { randomBytes } from "crypto";
+import nacl from "tweetnacl";
+
+export interface WalletChallenge {
+  message: string;
+  nonce: string;
+  expiresAt: Date;
+}
+
+// Sign-In-With-Solana style login. The server issues a one-time nonce
+// inside a message naming this domain; a login is only accepted for that
+// exact message, signed by the wallet it was issued to, before it expires.
+export class WalletAuth {
+  private readonly redis: Redis;
+  private readonly NONCE_PREFIX = "siws:nonce:";
+  private readonly nonceTtl = parseInt(
+    process.env.SIWS_NONCE_TTL_SECONDS || "300"
+  ); // 5 minutes
+  private readonly domain = process.env.SIWS_DOMAIN || "localhost";
+  private readonly uri = process.env.SIWS_URI || `https://${this.domain}`;
+  private readonly statement =
+    process.env.SIWS_STATEMENT || "Sign in to Virus Protocol";
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  async createChallenge(publicKey: string): Promise<WalletChallenge> {
+    const nonce = randomBytes(16).toString("hex");
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + this.nonceTtl * 1000);
+
+    const message = [
+      `${this.domain} wants you to sign in with your Solana account:`,
+      publicKey,
+      "",
+      this.statement,
+      "",
+      `URI: ${this.uri}`,
+      "Version: 1",
+      "Chain ID: mainnet",
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`,
+      `Expiration Time: ${expiresAt.toISOString()}`,
+    ].join("\n");
+
+    await this.redis.set(
+      `${this.NONCE_PREFIX}${nonce}`,
+      JSON.stringify({ publicKey, message }),
+      "EX",
+      this.nonceTtl
+    );
+
+    return { message, nonce, expiresAt };
+  }
+
+  // Consumes the nonce whatever the outcome, so a challenge can be tried
+  // only once
+  async verify(
+    publicKey: string,
+    message: string,
+    signature: string
+  ): Promise<boolean> {
+    const nonce = message.match(/^Nonce: ([0-9a-f]+)$/m)?.[1];
+    if (!nonce) return false;
+
+    const stored = await this.redis.getdel(`${this.NONCE_PREFIX}${nonce}`);
+    if (!stored) return false;
+
+    const challenge = JSON.parse(stored) as {
+      publicKey: string;
+      message: string;
+    };
+    if (challenge.publicKey !== publicKey || challenge.message !== message) {
+      return false;
+    }
+
+    const expiry = message.match(/^Expiration Time: (.+)$/m)?.[1];
+    if (!expiry || new Date(expiry).getTime() <= Date.now()) return false;
+
+    return this.validateSignature(message, signature, publicKey);
+  }
+
+  private validateSignature(
+    message: string,
+    signature: string,
+    publicKey: string
+  ): boolean {
+    try {
+      const pubKey = new PublicKey(publicKey); // Create PublicKey object
+      const sig = Buffer.from(signature, "base64"); // Decode base64 signature
+      const msg = new TextEncoder().encode(message); // Encode message
+      return nacl.sign.detached.verify(msg, sig, pubKey.toBytes());
+    } catch (error) {
+      console.error("Signature validation error:", error);
+      return false;
+    }
+  }
+}
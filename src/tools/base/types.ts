@@ -1,20 +1,35 @@
 // src/tools/base/types.ts
 
 import { Redis } from "ioredis";
+import { ZodType } from "zod";
+import type { TierFeatures } from "../../services/tiers.js";
+
+export interface ToolValidationError {
+  path: string;
+  message: string;
+}
 
 export interface ToolResult {
   success: boolean;
   data: any;
   error?: string;
+  validationErrors?: ToolValidationError[];
+}
+
+// Who a tool runs for; tools may scale their work to the caller's tier
+export interface ToolContext {
+  userId?: string;
+  features?: TierFeatures;
 }
 
-export interface Tool {
+export interface Tool<TArgs = any> {
   name: string;
   description: string;
-  execute: (args: any) => Promise<ToolResult>;
+  argsSchema: ZodType<TArgs>;
+  execute: (args: TArgs, context?: ToolContext) => Promise<ToolResult>;
 }
 
-export abstract class BaseTool implements Tool {
+export abstract class BaseTool<TArgs = any> implements Tool<TArgs> {
   protected redis: Redis;
   protected CACHE_PREFIX: string;
   protected DEFAULT_CACHE_TTL: number;
@@ -31,7 +46,8 @@ export abstract class BaseTool implements Tool {
 
   abstract name: string;
   abstract description: string;
-  abstract execute(args: any): Promise<ToolResult>;
+  abstract argsSchema: ZodType<TArgs>;
+  abstract execute(args: TArgs, context?: ToolContext): Promise<ToolResult>;
 
   protected async getFromCache<T>(key: string): Promise<T | null> {
     const cached = await this.redis.get(`${this.CACHE_PREFIX}${key}`);
@@ -2,6 +2,7 @@
 
 import axios from "axios";
 import { Redis } from "ioredis";
+import { z } from "zod";
 import { BaseTool, ToolResult } from "../base/types.js";
 
 interface CryptoPrice {
@@ -11,13 +12,19 @@ interface CryptoPrice {
   last_updated: string;
 }
 
-interface CryptoPriceArgs {
-  symbol: string;
-}
+const cryptoPriceArgsSchema = z.object({
+  symbol: z
+    .string()
+    .min(1)
+    .describe("CoinGecko coin id, e.g. bitcoin or solana"),
+});
+
+type CryptoPriceArgs = z.infer<typeof cryptoPriceArgsSchema>;
 
-export class CryptoPriceTool extends BaseTool {
+export class CryptoPriceTool extends BaseTool<CryptoPriceArgs> {
   name = "getCryptoPrice";
   description = "Get current price and 24h stats for a cryptocurrency";
+  argsSchema = cryptoPriceArgsSchema;
 
   constructor(redis: Redis) {
     super(redis, "crypto_price:", 300); // 5 minute cache
@@ -2,6 +2,11 @@
 
 import { Connection, PublicKey } from "@solana/web3.js";
 import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { z } from "zod";
+
+export const solanaAddressSchema = z
+  .string()
+  .regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, "Must be a base58 Solana address");
 
 export class SolanaBaseConnector {
   connection: Connection;
@@ -82,13 +87,12 @@ export class SolanaBaseConnector {
     }
   }
 
-  async getTokenAccountsByOwner(ownerAddress: string) {
+  // All SPL token accounts of the owner, or only those of one mint
+  async getTokenAccountsByOwner(ownerAddress: string, mint?: string) {
     try {
       return await this.connection.getParsedTokenAccountsByOwner(
         new PublicKey(ownerAddress),
-        {
-          programId: TOKEN_PROGRAM_ID,
-        },
+        mint ? { mint: new PublicKey(mint) } : { programId: TOKEN_PROGRAM_ID },
         "confirmed"
       );
     } catch (error) {
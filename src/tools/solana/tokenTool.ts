@@ -7,11 +7,16 @@ import {
 import axios from "axios";
 import { Redis } from "ioredis";
 import { BaseTool, ToolResult } from "../base/types.js";
-import { SolanaBaseConnector } from "./baseConnector.js";
+import { z } from "zod";
+import { SolanaBaseConnector, solanaAddressSchema } from "./baseConnector.js";
 
-interface TokenAnalysisArgs {
-  tokenAddress: string;
-}
+const tokenAnalysisArgsSchema = z.object({
+  tokenAddress: solanaAddressSchema.describe(
+    "Base58 mint address of the SPL token"
+  ),
+});
+
+type TokenAnalysisArgs = z.infer<typeof tokenAnalysisArgsSchema>;
 
 interface TokenAccountInfo {
   mint: string;
@@ -29,10 +34,11 @@ interface TokenDistribution {
   percentage: number;
 }
 
-export class SolanaTokenTool extends BaseTool {
+export class SolanaTokenTool extends BaseTool<TokenAnalysisArgs> {
   name = "analyzeToken";
   description =
     "Get comprehensive token analysis including supply, holders, and market metrics";
+  argsSchema = tokenAnalysisArgsSchema;
   private connector: SolanaBaseConnector;
 
   constructor(redis: Redis, rpcUrl: string) {
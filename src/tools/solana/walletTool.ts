@@ -2,12 +2,15 @@
 
 import { Connection, PublicKey, ParsedAccountData } from "@solana/web3.js";
 import { Redis } from "ioredis";
-import { BaseTool, ToolResult } from "../base/types.js";
-import { SolanaBaseConnector } from "./baseConnector.js";
+import { BaseTool, ToolContext, ToolResult } from "../base/types.js";
+import { z } from "zod";
+import { SolanaBaseConnector, solanaAddressSchema } from "./baseConnector.js";
 
-interface WalletAnalysisArgs {
-  walletAddress: string;
-}
+const walletAnalysisArgsSchema = z.object({
+  walletAddress: solanaAddressSchema.describe("Base58 Solana wallet address"),
+});
+
+type WalletAnalysisArgs = z.infer<typeof walletAnalysisArgsSchema>;
 
 function isPriceData(
   data: unknown
@@ -20,10 +23,11 @@ function isPriceData(
   );
 }
 
-export class SolanaWalletTool extends BaseTool {
+export class SolanaWalletTool extends BaseTool<WalletAnalysisArgs> {
   name = "analyzeWallet";
   description =
     "Get comprehensive wallet analysis including balances, tokens, and activity";
+  argsSchema = walletAnalysisArgsSchema;
   private connector: SolanaBaseConnector;
 
   constructor(redis: Redis, rpcUrl: string) {
@@ -31,7 +35,10 @@ export class SolanaWalletTool extends BaseTool {
     this.connector = new SolanaBaseConnector(rpcUrl);
   }
 
-  async execute(args: WalletAnalysisArgs): Promise<ToolResult> {
+  async execute(
+    args: WalletAnalysisArgs,
+    context: ToolContext = {}
+  ): Promise<ToolResult> {
     try {
       // Validate wallet address
       let walletPubkey: PublicKey;
@@ -45,7 +52,11 @@ export class SolanaWalletTool extends BaseTool {
         };
       }
 
-      const cached = await this.getFromCache<any>(args.walletAddress);
+      // Deeper activity history on higher tiers
+      const activityLimit = context.features?.walletActivityLimit || 20;
+      const cacheKey = `${args.walletAddress}:${activityLimit}`;
+
+      const cached = await this.getFromCache<any>(cacheKey);
       if (cached) {
         return { success: true, data: cached };
       }
@@ -55,7 +66,7 @@ export class SolanaWalletTool extends BaseTool {
         await Promise.all([
           this.connector.connection.getBalance(walletPubkey),
           this.connector.getTokenAccountsByOwner(args.walletAddress),
-          this.connector.getAccountActivity(args.walletAddress, 20),
+          this.connector.getAccountActivity(args.walletAddress, activityLimit),
           this.getNFTData(args.walletAddress),
         ]);
 
@@ -91,7 +102,7 @@ export class SolanaWalletTool extends BaseTool {
         lastUpdated: new Date(),
       };
 
-      await this.setCache(args.walletAddress, analysis);
+      await this.setCache(cacheKey, analysis);
       return { success: true, data: analysis };
     } catch (error: any) {
       return {
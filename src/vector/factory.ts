@@ -0,0 +1,26 @@
+// src/vector/factory.ts
+
+import { Redis } from "ioredis";
+import { InMemoryVectorStore } from "./memoryVectorStore.js";
+import { MongoVectorStore } from "./mongoVectorStore.js";
+import { RedisVectorStore } from "./redisVectorStore.js";
+import { VectorStore } from "./types.js";
+
+export type VectorStoreKind = "memory" | "redis" | "mongo";
+
+export const createVectorStore = (
+  redis: Redis,
+  kind: VectorStoreKind = (process.env.VECTOR_STORE as VectorStoreKind) ||
+    "memory"
+): VectorStore => {
+  switch (kind) {
+    case "memory":
+      return new InMemoryVectorStore();
+    case "redis":
+      return new RedisVectorStore(redis);
+    case "mongo":
+      return new MongoVectorStore();
+    default:
+      throw new Error(`Unknown vector store '${kind}'`);
+  }
+};
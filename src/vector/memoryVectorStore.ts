@@ -0,0 +1,44 @@
+// src/vector/memoryVectorStore.ts
+
+import { rankBySimilarity } from "./similarity.js";
+import { VectorItem, VectorMatch, VectorStore } from "./types.js";
+
+// Brute-force store held in process memory. Nothing survives a restart, so
+// callers re-index on demand (see MemorySystem.ensureIndexed).
+export class InMemoryVectorStore implements VectorStore {
+  private namespaces = new Map<string, Map<string, number[]>>();
+
+  async upsert(namespace: string, items: VectorItem[]): Promise<void> {
+    const vectors = this.namespaces.get(namespace) || new Map();
+    items.forEach((item) => vectors.set(item.id, item.vector));
+    this.namespaces.set(namespace, vectors);
+  }
+
+  async query(
+    namespace: string,
+    vector: number[],
+    limit: number
+  ): Promise<VectorMatch[]> {
+    const vectors = this.namespaces.get(namespace);
+    if (!vectors) return [];
+
+    return rankBySimilarity(
+      vector,
+      Array.from(vectors.entries()).map(([id, v]) => ({ id, vector: v })),
+      limit
+    );
+  }
+
+  async listIds(namespace: string): Promise<string[]> {
+    return Array.from(this.namespaces.get(namespace)?.keys() || []);
+  }
+
+  async remove(namespace: string, ids: string[]): Promise<void> {
+    const vectors = this.namespaces.get(namespace);
+    ids.forEach((id) => vectors?.delete(id));
+  }
+
+  async drop(namespace: string): Promise<void> {
+    this.namespaces.delete(namespace);
+  }
+}
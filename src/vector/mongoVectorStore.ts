@@ -0,0 +1,52 @@
+// src/vector/mongoVectorStore.ts
+
+import { MemoryVector } from "../models/memoryVector.js";
+import { rankBySimilarity } from "./similarity.js";
+import { VectorItem, VectorMatch, VectorStore } from "./types.js";
+
+// Vectors persisted in Mongo and ranked in the application. Namespaces are
+// bounded by the long-term memory limit, so a full scan per query is cheap.
+export class MongoVectorStore implements VectorStore {
+  async upsert(namespace: string, items: VectorItem[]): Promise<void> {
+    if (items.length === 0) return;
+
+    await MemoryVector.bulkWrite(
+      items.map((item) => ({
+        updateOne: {
+          filter: { namespace, itemId: item.id },
+          update: { $set: { vector: item.vector } },
+          upsert: true,
+        },
+      }))
+    );
+  }
+
+  async query(
+    namespace: string,
+    vector: number[],
+    limit: number
+  ): Promise<VectorMatch[]> {
+    const docs = await MemoryVector.find({ namespace })
+      .select("itemId vector")
+      .lean();
+
+    return rankBySimilarity(
+      vector,
+      docs.map((doc) => ({ id: doc.itemId, vector: doc.vector })),
+      limit
+    );
+  }
+
+  async listIds(namespace: string): Promise<string[]> {
+    return MemoryVector.distinct("itemId", { namespace });
+  }
+
+  async remove(namespace: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await MemoryVector.deleteMany({ namespace, itemId: { $in: ids } });
+  }
+
+  async drop(namespace: string): Promise<void> {
+    await MemoryVector.deleteMany({ namespace });
+  }
+}
@@ -0,0 +1,143 @@
+// src/vector/redisVectorStore.ts
+
+import { Redis } from "ioredis";
+import { VectorItem, VectorMatch, VectorStore } from "./types.js";
+
+// KNN search through a RediSearch HNSW index (requires Redis Stack)
+export class RedisVectorStore implements VectorStore {
+  private redis: Redis;
+  private readonly INDEX = "idx:vectors";
+  private readonly KEY_PREFIX = "vec:";
+  private readonly IDS_PREFIX = "vec_ids:";
+  private indexReady: Promise<void> | null = null;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  // The index is created lazily because its dimension comes from the
+  // embedding model in use
+  private ensureIndex(dimensions: number): Promise<void> {
+    if (!this.indexReady) {
+      this.indexReady = this.redis
+        .call(
+          "FT.CREATE",
+          this.INDEX,
+          "ON",
+          "HASH",
+          "PREFIX",
+          "1",
+          this.KEY_PREFIX,
+          "SCHEMA",
+          "namespace",
+          "TAG",
+          "vector",
+          "VECTOR",
+          "HNSW",
+          "6",
+          "TYPE",
+          "FLOAT32",
+          "DIM",
+          String(dimensions),
+          "DISTANCE_METRIC",
+          "COSINE"
+        )
+        .then(() => undefined)
+        .catch((error: Error) => {
+          if (!/index already exists/i.test(error.message)) {
+            this.indexReady = null;
+            throw error;
+          }
+        });
+    }
+    return this.indexReady;
+  }
+
+  private key(namespace: string, id: string): string {
+    return `${this.KEY_PREFIX}${namespace}:${id}`;
+  }
+
+  private toBuffer(vector: number[]): Buffer {
+    return Buffer.from(new Float32Array(vector).buffer);
+  }
+
+  // TAG values must escape punctuation and spaces
+  private escapeTag(value: string): string {
+    return value.replace(/[^A-Za-z0-9_]/g, (char) => `\\${char}`);
+  }
+
+  async upsert(namespace: string, items: VectorItem[]): Promise<void> {
+    if (items.length === 0) return;
+    await this.ensureIndex(items[0].vector.length);
+
+    const pipeline = this.redis.pipeline();
+    for (const item of items) {
+      pipeline.hset(this.key(namespace, item.id), {
+        namespace,
+        vector: this.toBuffer(item.vector),
+      });
+      pipeline.sadd(`${this.IDS_PREFIX}${namespace}`, item.id);
+    }
+    await pipeline.exec();
+  }
+
+  async query(
+    namespace: string,
+    vector: number[],
+    limit: number
+  ): Promise<VectorMatch[]> {
+    await this.ensureIndex(vector.length);
+
+    const result = (await this.redis.call(
+      "FT.SEARCH",
+      this.INDEX,
+      `(@namespace:{${this.escapeTag(
+        namespace
+      )}})=>[KNN ${limit} @vector $vec AS distance]`,
+      "PARAMS",
+      "2",
+      "vec",
+      this.toBuffer(vector),
+      "SORTBY",
+      "distance",
+      "RETURN",
+      "1",
+      "distance",
+      "DIALECT",
+      "2"
+    )) as (string | number | string[])[];
+
+    // Reply: [total, key, [field, value, ...], key, [...], ...]
+    const prefix = this.key(namespace, "");
+    const matches: VectorMatch[] = [];
+    for (let i = 1; i < result.length; i += 2) {
+      const key = result[i];
+      const fields = result[i + 1];
+      if (typeof key !== "string" || !Array.isArray(fields)) continue;
+
+      const distance = parseFloat(fields[fields.indexOf("distance") + 1]);
+      matches.push({
+        id: key.slice(prefix.length),
+        score: 1 - distance,
+      });
+    }
+
+    return matches;
+  }
+
+  async listIds(namespace: string): Promise<string[]> {
+    return this.redis.smembers(`${this.IDS_PREFIX}${namespace}`);
+  }
+
+  async remove(namespace: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.redis.del(...ids.map((id) => this.key(namespace, id)));
+    await this.redis.srem(`${this.IDS_PREFIX}${namespace}`, ...ids);
+  }
+
+  async drop(namespace: string): Promise<void> {
+    const ids = await this.listIds(namespace);
+    await this.remove(namespace, ids);
+    await this.redis.del(`${this.IDS_PREFIX}${namespace}`);
+  }
+}
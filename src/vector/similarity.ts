@@ -0,0 +1,29 @@
+// src/vector/similarity.ts
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+export const rankBySimilarity = (
+  query: number[],
+  items: { id: string; vector: number[] }[],
+  limit: number
+) =>
+  items
+    .map((item) => ({
+      id: item.id,
+      score: cosineSimilarity(query, item.vector),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
@@ -0,0 +1,24 @@
+// src/vector/types.ts
+
+export interface VectorItem {
+  id: string;
+  vector: number[];
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number; // Cosine similarity, 1 = identical direction
+}
+
+// Vectors are grouped by namespace (one per user for long-term memory)
+export interface VectorStore {
+  upsert(namespace: string, items: VectorItem[]): Promise<void>;
+  query(
+    namespace: string,
+    vector: number[],
+    limit: number
+  ): Promise<VectorMatch[]>;
+  listIds(namespace: string): Promise<string[]>;
+  remove(namespace: string, ids: string[]): Promise<void>;
+  drop(namespace: string): Promise<void>;
+}
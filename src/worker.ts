@@ -0,0 +1,91 @@
+// src/worker.ts
+import mongoose from "mongoose";
+import { Redis } from "ioredis";
+import { VirusProtocolCore } from "./services/virusProtocol.js";
+import { EvolutionWorker } from "./services/evolutionWorker.js";
+import { LoadBalancer } from "./middleware/loadBalancer.js";
+import { TierStore } from "./services/tiers.js";
+import { AuthSessions } from "./services/authSessions.js";
+import "./models/interaction.js";
+
+// Initialize Redis with retry strategy
+const redis = new Redis({
+  host: process.env.REDIS_HOST || "redis",
+  port: parseInt(process.env.REDIS_PORT || "6379"),
+  retryStrategy: (times) => {
+    const delay = Math.min(times * 50, 2000);
+    return delay;
+  },
+  maxRetriesPerRequest: 3,
+});
+
+const virusProtocol = new VirusProtocolCore(redis);
+const loadBalancer = new LoadBalancer(redis);
+const worker = new EvolutionWorker(redis, virusProtocol, loadBalancer, {
+  pollInterval: parseInt(process.env.EVOLUTION_WORKER_POLL_MS || "5000"),
+  runInterval: parseInt(process.env.EVOLUTION_WORKER_INTERVAL_MS || "60000"),
+  threshold: parseInt(process.env.EVOLUTION_WORKER_THRESHOLD || "20"),
+});
+
+// Keeps token balances fresh; holders whose tier moved get it applied to the
+// tokens they already hold
+const tiers = new TierStore(redis);
+const sessions = new AuthSessions(redis, undefined, tiers);
+let holdingsTimer: NodeJS.Timeout | null = null;
+let refreshingHoldings = false;
+
+const refreshHoldings = async () => {
+  if (refreshingHoldings) return;
+  refreshingHoldings = true;
+  try {
+    const moved = await tiers.refreshHoldings();
+    await Promise.all(
+      moved.map(({ userId, tier }) => sessions.applyTierChange(userId, tier))
+    );
+  } catch (error) {
+    console.error("Error refreshing token holdings:", error);
+  } finally {
+    refreshingHoldings = false;
+  }
+};
+
+// Graceful shutdown handling
+const shutdown = async () => {
+  console.log("Shutting down evolution worker...");
+
+  if (holdingsTimer) clearInterval(holdingsTimer);
+  await worker.stop();
+  await loadBalancer.shutdown();
+
+  await redis.quit();
+  await mongoose.connection.close();
+  console.log("Connections closed");
+
+  process.exit(0);
+};
+
+process.on("SIGTERM", shutdown);
+process.on("SIGINT", shutdown);
+
+const start = async () => {
+  try {
+    await mongoose.connect(process.env.MONGODB_URI!, {
+      serverSelectionTimeoutMS: 5000, // 5 second timeout
+      heartbeatFrequencyMS: 10000, // 10 second heartbeat
+    });
+    console.log("Connected to MongoDB");
+
+    await worker.start();
+    console.log("Evolution worker started");
+
+    holdingsTimer = setInterval(
+      refreshHoldings,
+      parseInt(process.env.TOKEN_GATE_POLL_MS || "60000")
+    );
+  } catch (error) {
+    console.error("Failed to start evolution worker:", error);
+    process.exit(1);
+  }
+};
+
+start();
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import jwt from "jsonwebtoken";
+import { AccessClaims, AuthSessions } from "../src/services/authSessions.js";
+import { FakeRedis } from "./fakeRedis.js";
+
+process.env.JWT_SECRET = "test-secret";
+
+const claimsOf = (token: string) =>
+  jwt.verify(token, process.env.JWT_SECRET!) as AccessClaims;
+
+let redis: FakeRedis;
+let sessions: AuthSessions;
+let now: number;
+
+beforeEach(() => {
+  now = Date.UTC(2026, 0, 1, 12, 0, 0, 100);
+  mock.method(Date, "now", () => now);
+  redis = new FakeRedis();
+  // Cached role and tier, so no database is needed
+  redis.strings.set("auth:role:u1", "user");
+  redis.strings.set("auth:tier:u1", "basic");
+  sessions = new AuthSessions(redis.asRedis());
+});
+afterEach(() => mock.restoreAll());
+
+describe("AuthSessions refresh", () => {
+  test("rotates the refresh token on every use", async () => {
+    const first = await sessions.create("u1", "user");
+    const second = await sessions.refresh(first.refreshToken);
+
+    assert.ok(second);
+    assert.equal(second.sessionId, first.sessionId);
+    assert.notEqual(second.refreshToken, first.refreshToken);
+    assert.ok(await sessions.refresh(second.refreshToken));
+  });
+
+  test("a reused refresh token revokes the whole session", async () => {
+    const first = await sessions.create("u1", "user");
+    const second = await sessions.refresh(first.refreshToken);
+    assert.ok(second);
+
+    assert.equal(await sessions.refresh(first.refreshToken), null);
+
+    // The legitimate holder is logged out too
+    assert.equal(await sessions.refresh(second.refreshToken), null);
+    assert.equal(await sessions.get(first.sessionId), null);
+    assert.equal(await sessions.isRevoked(claimsOf(second.accessToken)), true);
+  });
+
+  test("unknown refresh tokens are rejected", async () => {
+    assert.equal(await sessions.refresh("not-a-token"), null);
+  });
+});
+
+describe("AuthSessions.revokeUser", () => {
+  test("revokes tokens issued up to the revocation", async () => {
+    const before = await sessions.create("u1", "user");
+    now += 5;
+    assert.equal(await sessions.revokeUser("u1"), 1);
+
+    assert.equal(await sessions.isRevoked(claimsOf(before.accessToken)), true);
+    assert.equal(await sessions.refresh(before.refreshToken), null);
+  });
+
+  test("a login in the same second as the revocation stays valid", async () => {
+    await sessions.create("u1", "user");
+    await sessions.revokeUser("u1");
+    now += 5;
+
+    const after = await sessions.create("u1", "user");
+    assert.equal(
+      Math.floor(now / 1000),
+      Math.floor(Date.UTC(2026, 0, 1, 12) / 1000)
+    );
+    assert.equal(await sessions.isRevoked(claimsOf(after.accessToken)), false);
+  });
+
+  test("still revokes tokens that only carry iat", async () => {
+    await sessions.revokeUser("u1");
+    const iat = Math.floor(now / 1000);
+
+    assert.equal(
+      await sessions.isRevoked({ id: "u1", role: "user", iat }),
+      true
+    );
+    assert.equal(
+      await sessions.isRevoked({ id: "u1", role: "user", iat: iat + 1 }),
+      false
+    );
+  });
+
+  test("honours cutoffs stored in seconds", async () => {
+    redis.strings.set("auth:revoked_user:u1", String(Math.floor(now / 1000)));
+
+    assert.equal(
+      await sessions.isRevoked({ id: "u1", role: "user", issuedAt: now + 500 }),
+      true
+    );
+    assert.equal(
+      await sessions.isRevoked({
+        id: "u1",
+        role: "user",
+        issuedAt: now + 1000,
+      }),
+      false
+    );
+  });
+});
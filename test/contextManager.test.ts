@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { ContextManager } from "../src/services/contextManager.js";
+import { Interaction } from "../src/models/interaction.js";
+import { ContextWindow } from "../src/models/contextWindow.js";
+import { LlmRegistry } from "../src/llm/registry.js";
+import { LlmMessage } from "../src/llm/types.js";
+import { ScriptedProvider } from "../src/llm/scriptedProvider.js";
+import { FakeModel } from "./fakeModel.js";
+import { FakeRedis } from "./fakeRedis.js";
+
+const HOUR = 60 * 60 * 1000;
+const WINDOW = { hours: 24, maxInteractions: 2 };
+
+// Summaries list the messages they cover, so tests can tell which
+// interactions made it in
+const last = (messages: LlmMessage[]) => messages[messages.length - 1].content;
+const provider = new ScriptedProvider({
+  rules: [
+    {
+      match: "Summarize these interactions",
+      response: (messages) =>
+        JSON.parse(last(messages))
+          .map((i: { m: string }) => i.m)
+          .join(","),
+    },
+    {
+      match: "Update this",
+      response: (messages) =>
+        last(messages)
+          .replace("Current summary:\n", "")
+          .replace("\n\nNew interactions:\n", ",")
+          .replace(/\n/g, ","),
+    },
+    {
+      match: "Combine these",
+      response: (messages) => last(messages).replace(/\n/g, ","),
+    },
+  ],
+});
+
+let interactions: FakeModel;
+let windows: FakeModel;
+let manager: ContextManager;
+
+const add = (message: string, hoursAgo: number, extra = {}) => {
+  const at = new Date(Date.now() - hoursAgo * HOUR);
+  return interactions.insert({
+    userId: "u1",
+    message,
+    response: "ok",
+    evolutionScore: 0.9,
+    timestamp: at,
+    scoredAt: at,
+    ...extra,
+  })[0];
+};
+
+const update = (userId?: string) =>
+  manager["updateWindow"](WINDOW, userId, false);
+
+const covered = (summary: string) => summary.split(",").sort();
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ["Date"], now: Date.UTC(2026, 0, 1) });
+  interactions = new FakeModel();
+  windows = new FakeModel();
+  mock.method(Interaction, "find", (filter: any) => interactions.find(filter));
+  mock.method(ContextWindow, "findOne", (filter: any) =>
+    windows.findOne(filter)
+  );
+  mock.method(ContextWindow, "updateOne", (...args: any[]) =>
+    windows.updateOne(args[0], args[1], args[2])
+  );
+  manager = new ContextManager(
+    new FakeRedis().asRedis(),
+    LlmRegistry.withProvider(provider)
+  );
+});
+afterEach(() => {
+  mock.timers.reset();
+  mock.restoreAll();
+});
+
+describe("ContextManager windows", () => {
+  test("a rebuild keeps the highest-scoring interactions", async () => {
+    add("low", 3, { evolutionScore: 0.1 });
+    add("high", 2);
+    add("mid", 1, { evolutionScore: 0.6 });
+
+    const window = await update("u1");
+
+    assert.deepEqual(covered(window.summary), ["high", "mid"]);
+    assert.equal(window.changed, true);
+  });
+
+  test("merges every new interaction, a page at a time", async () => {
+    add("first", 5);
+    await update("u1");
+    mock.timers.tick(HOUR);
+
+    // More than a page, and the newest scores lowest
+    add("a", 0.5, { evolutionScore: 0.9 });
+    add("b", 0.4, { evolutionScore: 0.8 });
+    add("c", 0.3, { evolutionScore: 0.7 });
+    add("d", 0.2, { evolutionScore: 0.2 });
+    add("e", 0.1, { evolutionScore: 0.1 });
+    const window = await update("u1");
+
+    assert.deepEqual(covered(window.summary), [
+      "a",
+      "b",
+      "c",
+      "d",
+      "e",
+      "first",
+    ]);
+
+    const again = await update("u1");
+    assert.equal(again.changed, false);
+    assert.equal(again.summary, window.summary);
+  });
+
+  test("doesn't skip interactions that share a timestamp", async () => {
+    add("first", 5);
+    await update("u1");
+    mock.timers.tick(HOUR);
+
+    const at = new Date(Date.now() - HOUR / 2);
+    ["a", "b", "c"].forEach((message) =>
+      interactions.insert({
+        userId: "u1",
+        message,
+        response: "ok",
+        evolutionScore: 0.9,
+        timestamp: at,
+      })
+    );
+    const window = await update("u1");
+
+    assert.deepEqual(covered(window.summary), ["a", "b", "c", "first"]);
+  });
+
+  test("the global window picks up interactions once they score higher", async () => {
+    add("first", 2);
+    const late = add("late", 3, { evolutionScore: 0.3 });
+    await update();
+    mock.timers.tick(HOUR);
+
+    // Re-scored after the cursor passed its timestamp
+    Object.assign(late, { evolutionScore: 0.8, scoredAt: new Date() });
+    const window = await update();
+
+    assert.deepEqual(covered(window.summary), ["first", "late"]);
+  });
+
+  test("the global window doesn't repeat re-scored interactions", async () => {
+    const first = add("first", 5);
+    await update();
+    mock.timers.tick(HOUR);
+
+    Object.assign(first, { evolutionScore: 0.95, scoredAt: new Date() });
+    const window = await update();
+
+    assert.equal(window.changed, false);
+    assert.deepEqual(covered(window.summary), ["first"]);
+  });
+});
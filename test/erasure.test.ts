@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { EvolutionInsights } from "../src/services/evolutionInsights.js";
+import { EvolutionInsight } from "../src/models/evolutionInsight.js";
+import { EvolutionInsightSource } from "../src/models/evolutionInsightSource.js";
+import { ContextManager } from "../src/services/contextManager.js";
+import { ContextWindow } from "../src/models/contextWindow.js";
+import { LlmRegistry } from "../src/llm/registry.js";
+import { ScriptedProvider } from "../src/llm/scriptedProvider.js";
+import { FakeModel } from "./fakeModel.js";
+import { FakeRedis } from "./fakeRedis.js";
+
+// Installs a fake over each model method the services call
+const fake = (model: any, methods: string[]) => {
+  const collection = new FakeModel();
+  methods.forEach((name) =>
+    mock.method(model, name, (...args: any[]) =>
+      (collection as any)[name](...args)
+    )
+  );
+  return collection;
+};
+
+const pattern = (text: string, interactionIds: string[]) => ({
+  patterns: [{ text, interactionIds }],
+  developments: [],
+  recommendations: [],
+});
+
+afterEach(() => mock.restoreAll());
+
+describe("EvolutionInsights.forgetInteractions", () => {
+  let insights: FakeModel;
+  let sources: FakeModel;
+
+  beforeEach(() => {
+    const methods = ["find", "deleteMany", "bulkWrite"];
+    insights = fake(EvolutionInsight, methods);
+    sources = fake(EvolutionInsightSource, methods);
+  });
+
+  test("deletes insights whose sources were erased", async () => {
+    const service = new EvolutionInsights();
+    await service.record(pattern("Users ask about memory", ["a", "b"]), [
+      "a",
+      "b",
+    ]);
+    await service.record(pattern("Users like tools", ["c"]), ["c"]);
+
+    assert.equal(await service.forgetInteractions(["b"]), 1);
+    assert.deepEqual(
+      insights.docs.map((insight) => insight.text),
+      ["Users like tools"]
+    );
+    assert.deepEqual(
+      sources.docs.map((source) => source.interactionId),
+      ["c"]
+    );
+  });
+
+  test("finds sources the insight itself no longer lists", async () => {
+    const service = new EvolutionInsights();
+    await service.record(pattern("Recurring question", ["first"]), ["first"]);
+    for (let i = 0; i < 120; i++) {
+      await service.record(pattern("Recurring question", [`i${i}`]), [`i${i}`]);
+    }
+    assert.equal(insights.docs[0].sourceInteractions.includes("first"), false);
+
+    assert.equal(await service.forgetInteractions(["first"]), 1);
+    assert.equal(insights.docs.length, 0);
+    assert.equal(sources.docs.length, 0);
+  });
+
+  test("leaves unrelated insights alone", async () => {
+    const service = new EvolutionInsights();
+    await service.record(pattern("Users like tools", ["c"]), ["c"]);
+
+    assert.equal(await service.forgetInteractions(["x"]), 0);
+    assert.equal(await service.forgetInteractions([]), 0);
+    assert.equal(insights.docs.length, 1);
+  });
+});
+
+describe("ContextManager.forgetInteractions", () => {
+  test("rebuilds every scope whose windows cover the interactions", async () => {
+    const windows = fake(ContextWindow, ["distinct"]);
+    windows.insert(
+      { scope: "global", hours: 24, interactionIds: ["a", "b"] },
+      { scope: "global", hours: 168, interactionIds: ["a", "b", "c"] },
+      { scope: "user:u1", hours: 24, interactionIds: ["a"] },
+      { scope: "user:u2", hours: 24, interactionIds: ["d"] }
+    );
+    const manager = new ContextManager(
+      new FakeRedis().asRedis(),
+      LlmRegistry.withProvider(new ScriptedProvider())
+    );
+    const rebuilt = mock.method(
+      manager,
+      "generateContextSummary",
+      async () => null
+    );
+
+    assert.equal(await manager.forgetInteractions(["a", "c"]), 2);
+    assert.deepEqual(
+      rebuilt.mock.calls.map((call) => call.arguments),
+      [
+        [undefined, { rebuild: true }],
+        ["u1", { rebuild: true }],
+      ]
+    );
+    assert.equal(await manager.forgetInteractions(["z"]), 0);
+  });
+});
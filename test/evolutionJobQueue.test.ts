@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import RedisMock from "ioredis-mock";
+import { Redis } from "ioredis";
+import { EvolutionJobQueue } from "../src/services/evolutionJobQueue.js";
+import { Interaction } from "../src/models/interaction.js";
+import { FakeModel } from "./fakeModel.js";
+
+const MINUTE = 60 * 1000;
+
+let now: number;
+let interactions: FakeModel;
+let queue: EvolutionJobQueue;
+
+const enqueue = async (count: number) => {
+  const ids = interactions
+    .insert(...Array.from({ length: count }, () => ({ processed: false })))
+    .map((doc) => doc._id.toString());
+  for (const id of ids) await queue.enqueue(id);
+  return ids;
+};
+
+const attemptsOf = (id: string) =>
+  interactions.docs.find((doc) => doc._id.toString() === id)!
+    .processingAttempts;
+
+// ioredis-mock hands back Lua tables of more than one entry unconverted,
+// so batches here are of one
+const reserveOne = async () => (await queue.reserve(1))[0];
+
+beforeEach(async () => {
+  now = Date.UTC(2026, 0, 1);
+  mock.method(Date, "now", () => now);
+  interactions = new FakeModel();
+  mock.method(Interaction, "find", (filter: any) => interactions.find(filter));
+  mock.method(Interaction, "updateMany", (filter: any, update: any) =>
+    interactions.updateMany(filter, update)
+  );
+
+  const redis = new RedisMock() as unknown as Redis;
+  await redis.flushall();
+  queue = new EvolutionJobQueue(redis);
+});
+afterEach(() => mock.restoreAll());
+
+describe("EvolutionJobQueue", () => {
+  test("reserves in order and acks processed interactions", async () => {
+    const [first, second] = await enqueue(2);
+
+    assert.equal(await reserveOne(), first);
+    assert.equal(attemptsOf(first), 1);
+    assert.deepEqual(await queue.stats(), {
+      ready: 1,
+      processing: 1,
+      delayed: 0,
+      dead: 0,
+    });
+
+    await queue.ack([first]);
+    assert.equal(interactions.docs[0].processed, true);
+    assert.equal(await reserveOne(), second);
+    assert.equal(await queue.pendingCount(), 1);
+  });
+
+  test("reclaims reservations whose lease lapsed", async () => {
+    const [id] = await enqueue(1);
+    await reserveOne();
+
+    now += 9 * MINUTE;
+    assert.deepEqual(await queue.recover(), { reclaimed: 0, promoted: 0 });
+
+    now += 2 * MINUTE;
+    assert.deepEqual(await queue.recover(), { reclaimed: 1, promoted: 0 });
+    assert.equal(await reserveOne(), id);
+    assert.equal(attemptsOf(id), 2);
+  });
+
+  test("retries failures with backoff, then dead-letters them", async () => {
+    const [id] = await enqueue(1);
+
+    await reserveOne();
+    assert.deepEqual(await queue.fail([id], new Error("first")), {
+      retried: [id],
+      deadLettered: [],
+    });
+
+    // Not due until the 30 second backoff has passed
+    assert.deepEqual(await queue.recover(), { reclaimed: 0, promoted: 0 });
+    now += 30 * 1000;
+    assert.deepEqual(await queue.recover(), { reclaimed: 0, promoted: 1 });
+
+    await reserveOne();
+    await queue.fail([id], new Error("second"));
+    now += 60 * 1000;
+    await queue.recover();
+
+    await reserveOne();
+    assert.deepEqual(await queue.fail([id], new Error("third")), {
+      retried: [],
+      deadLettered: [id],
+    });
+    assert.deepEqual(await queue.listDeadLetters(), [
+      { interactionId: id, error: "third" },
+    ]);
+    assert.equal(await queue.pendingCount(), 0);
+  });
+
+  test("requeued dead letters get a fresh set of attempts", async () => {
+    const [id] = await enqueue(1);
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await reserveOne();
+      await queue.fail([id], new Error("failed"));
+      now += 60 * MINUTE;
+      await queue.recover();
+    }
+    assert.equal((await queue.stats()).dead, 1);
+
+    assert.deepEqual(await queue.requeueDeadLetters(), [id]);
+    assert.equal(attemptsOf(id), 0);
+    assert.deepEqual(await queue.listDeadLetters(), []);
+    assert.equal(await reserveOne(), id);
+  });
+
+  test("doesn't retry interactions erased while in flight", async () => {
+    const [id] = await enqueue(1);
+    await reserveOne();
+    await interactions.deleteMany({});
+
+    assert.deepEqual(await queue.fail([id], new Error("gone")), {
+      retried: [],
+      deadLettered: [],
+    });
+    assert.equal(await queue.pendingCount(), 0);
+  });
+});
@@ -0,0 +1,254 @@
+import mongoose from "mongoose";
+
+type Doc = Record<string, any>;
+type Filter = Record<string, any>;
+
+const comparable = (value: any): any =>
+  value instanceof Date
+    ? value.getTime()
+    : value instanceof mongoose.Types.ObjectId
+      ? value.toHexString()
+      : value;
+
+const compare = (a: any, b: any): number => {
+  const [x, y] = [comparable(a), comparable(b)];
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+const equals = (value: any, expected: any): boolean =>
+  Array.isArray(value)
+    ? value.some((item) => equals(item, expected))
+    : compare(value, expected) === 0 && value !== undefined;
+
+const isOperators = (condition: any): boolean =>
+  condition !== null &&
+  typeof condition === "object" &&
+  !(condition instanceof Date) &&
+  !(condition instanceof mongoose.Types.ObjectId) &&
+  Object.keys(condition).every((key) => key.startsWith("$"));
+
+const pathOf = (doc: Doc, path: string): any =>
+  path.split(".").reduce((value, key) => value?.[key], doc);
+
+export const matches = (doc: Doc, filter: Filter): boolean =>
+  Object.entries(filter).every(([key, condition]) => {
+    if (key === "$or") return condition.some((f: Filter) => matches(doc, f));
+    if (key === "$and") return condition.every((f: Filter) => matches(doc, f));
+
+    const value = pathOf(doc, key);
+    if (!isOperators(condition)) return equals(value, condition);
+
+    return Object.entries(condition).every(([op, operand]: [string, any]) => {
+      switch (op) {
+        case "$gt":
+          return value !== undefined && compare(value, operand) > 0;
+        case "$gte":
+          return value !== undefined && compare(value, operand) >= 0;
+        case "$lt":
+          return value !== undefined && compare(value, operand) < 0;
+        case "$lte":
+          return value !== undefined && compare(value, operand) <= 0;
+        case "$in":
+          return operand.some((item: any) => equals(value, item));
+        case "$nin":
+          return !operand.some((item: any) => equals(value, item));
+        case "$ne":
+          return !equals(value, operand);
+        case "$exists":
+          return (value !== undefined) === operand;
+        default:
+          throw new Error(`FakeModel doesn't support ${op}`);
+      }
+    });
+  });
+
+// Copies plain objects and arrays; dates and ids are kept as they are
+const clone = (value: any): any =>
+  Array.isArray(value)
+    ? value.map(clone)
+    : value !== null && value?.constructor === Object
+      ? Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [key, clone(item)])
+        )
+      : value;
+
+// Documents come back with the get() of hydrated ones
+const hydrate = (doc: Doc): Doc =>
+  Object.defineProperty(clone(doc), "get", {
+    value(path: string) {
+      return pathOf(this, path);
+    },
+  });
+
+class FakeQuery<T> implements PromiseLike<T> {
+  private order: [string, number][] = [];
+  private skipped = 0;
+  private limited = Infinity;
+
+  constructor(
+    private readonly docs: Doc[],
+    private readonly shape: (docs: Doc[]) => T
+  ) {}
+
+  sort(spec: Record<string, 1 | -1>) {
+    this.order = Object.entries(spec);
+    return this;
+  }
+
+  skip(count: number) {
+    this.skipped = count;
+    return this;
+  }
+
+  limit(count: number) {
+    this.limited = count;
+    return this;
+  }
+
+  // Projections are ignored: every field comes back
+  select() {
+    return this;
+  }
+
+  lean() {
+    return this;
+  }
+
+  exec(): Promise<T> {
+    const sorted = [...this.docs].sort((a, b) => {
+      for (const [path, direction] of this.order) {
+        const order = compare(pathOf(a, path), pathOf(b, path));
+        if (order !== 0) return order * direction;
+      }
+      return 0;
+    });
+    return Promise.resolve(
+      this.shape(
+        sorted
+          .slice(this.skipped, this.skipped + this.limited)
+          .map((doc) => hydrate(doc))
+      )
+    );
+  }
+
+  then<R1 = T, R2 = never>(
+    onFulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+    onRejected?: ((reason: any) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    return this.exec().then(onFulfilled, onRejected);
+  }
+}
+
+// In-memory stand-in for the mongoose model methods the services under
+// test use, with the query operators and update operators they need.
+// Install it over a model with mock.method.
+export class FakeModel {
+  readonly docs: Doc[] = [];
+
+  insert(...docs: Doc[]): Doc[] {
+    const inserted = docs.map((doc) => ({
+      _id: new mongoose.Types.ObjectId(),
+      ...doc,
+    }));
+    this.docs.push(...inserted);
+    return inserted;
+  }
+
+  find(filter: Filter = {}) {
+    return new FakeQuery(
+      this.docs.filter((doc) => matches(doc, filter)),
+      (docs) => docs
+    );
+  }
+
+  findOne(filter: Filter = {}) {
+    return new FakeQuery(
+      this.docs.filter((doc) => matches(doc, filter)),
+      (docs) => docs[0] ?? null
+    );
+  }
+
+  async distinct(path: string, filter: Filter = {}) {
+    const values = this.docs
+      .filter((doc) => matches(doc, filter))
+      .flatMap((doc) => pathOf(doc, path));
+    return [...new Set(values)];
+  }
+
+  async countDocuments(filter: Filter = {}) {
+    return this.docs.filter((doc) => matches(doc, filter)).length;
+  }
+
+  async create(doc: Doc) {
+    return hydrate(this.insert(doc)[0]);
+  }
+
+  async updateOne(
+    filter: Filter,
+    update: Doc,
+    options: { upsert?: boolean } = {}
+  ) {
+    let doc = this.docs.find((candidate) => matches(candidate, filter));
+    if (!doc) {
+      if (!options.upsert) return { matchedCount: 0, modifiedCount: 0 };
+      const fields = Object.fromEntries(
+        Object.entries(filter).filter(([key]) => !key.startsWith("$"))
+      );
+      [doc] = this.insert({ ...fields, ...update.$setOnInsert });
+    }
+    this.apply(doc, update);
+    return { matchedCount: 1, modifiedCount: 1 };
+  }
+
+  async updateMany(filter: Filter, update: Doc) {
+    const docs = this.docs.filter((doc) => matches(doc, filter));
+    docs.forEach((doc) => this.apply(doc, update));
+    return { matchedCount: docs.length, modifiedCount: docs.length };
+  }
+
+  async deleteMany(filter: Filter = {}) {
+    const kept = this.docs.filter((doc) => !matches(doc, filter));
+    const deletedCount = this.docs.length - kept.length;
+    this.docs.splice(0, this.docs.length, ...kept);
+    return { deletedCount };
+  }
+
+  async bulkWrite(operations: Doc[]) {
+    for (const operation of operations) {
+      if (operation.updateOne) {
+        const { filter, update, upsert } = operation.updateOne;
+        await this.updateOne(filter, update, { upsert });
+      } else if (operation.deleteMany) {
+        await this.deleteMany(operation.deleteMany.filter);
+      } else {
+        throw new Error("FakeModel supports updateOne and deleteMany writes");
+      }
+    }
+    return {};
+  }
+
+  private apply(doc: Doc, update: Doc) {
+    Object.assign(doc, update.$set);
+    Object.keys(update.$unset || {}).forEach((key) => delete doc[key]);
+    Object.entries(update.$inc || {}).forEach(([key, by]) => {
+      doc[key] = (doc[key] || 0) + (by as number);
+    });
+    Object.entries(update.$push || {}).forEach(
+      ([key, value]: [string, any]) => {
+        const items = value?.$each ?? [value];
+        const pushed = [...(doc[key] || []), ...items];
+        doc[key] = value?.$slice ? pushed.slice(value.$slice) : pushed;
+      }
+    );
+    Object.entries(update.$pull || {}).forEach(
+      ([key, value]: [string, any]) => {
+        doc[key] = (doc[key] || []).filter(
+          (item: any) =>
+            !(isOperators(value)
+              ? matches({ item }, { item: value })
+              : equals(item, value))
+        );
+      }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { Redis } from "ioredis";
+
+// In-memory stand-in for the few Redis commands the services under test
+// use. Expiry is ignored.
+export class FakeRedis {
+  readonly strings = new Map<string, string>();
+  readonly zsets = new Map<string, Map<string, number>>();
+  readonly hashes = new Map<string, Map<string, string>>();
+  readonly sets = new Map<string, Set<string>>();
+
+  private has(key: string) {
+    return [this.strings, this.zsets, this.hashes, this.sets].some((store) =>
+      store.has(key)
+    );
+  }
+
+  async get(key: string) {
+    return this.strings.get(key) ?? null;
+  }
+
+  // Options other than NX are ignored
+  async set(key: string, value: string | number, ...options: unknown[]) {
+    if (options.includes("NX") && this.has(key)) return null;
+    this.strings.set(key, String(value));
+    return "OK";
+  }
+
+  async getdel(key: string) {
+    const value = await this.get(key);
+    this.strings.delete(key);
+    return value;
+  }
+
+  async incr(key: string) {
+    return this.incrby(key, 1);
+  }
+
+  async incrby(key: string, by: number) {
+    const value = Number(this.strings.get(key) || 0) + by;
+    this.strings.set(key, String(value));
+    return value;
+  }
+
+  async decrby(key: string, by: number) {
+    return this.incrby(key, -by);
+  }
+
+  async expire() {
+    return 1;
+  }
+
+  async exists(...keys: string[]) {
+    return keys.filter((key) => this.has(key)).length;
+  }
+
+  async del(...keys: string[]) {
+    let deleted = 0;
+    for (const key of keys) {
+      const found = this.has(key);
+      [this.strings, this.zsets, this.hashes, this.sets].forEach((store) =>
+        store.delete(key)
+      );
+      if (found) deleted++;
+    }
+    return deleted;
+  }
+
+  async hset(key: string, fields: Record<string, string | number>) {
+    const hash = this.hashes.get(key) || new Map<string, string>();
+    const added = Object.keys(fields).filter((field) => !hash.has(field));
+    Object.entries(fields).forEach(([field, value]) =>
+      hash.set(field, String(value))
+    );
+    this.hashes.set(key, hash);
+    return added.length;
+  }
+
+  async hgetall(key: string) {
+    return Object.fromEntries(this.hashes.get(key) || []);
+  }
+
+  async sadd(key: string, ...members: string[]) {
+    const set = this.sets.get(key) || new Set<string>();
+    const added = members.filter((member) => !set.has(member));
+    members.forEach((member) => set.add(member));
+    this.sets.set(key, set);
+    return added.length;
+  }
+
+  async srem(key: string, ...members: string[]) {
+    const set = this.sets.get(key);
+    return members.filter((member) => set?.delete(member)).length;
+  }
+
+  async smembers(key: string) {
+    return [...(this.sets.get(key) || [])];
+  }
+
+  // Queues commands and runs them in order on exec()
+  multi() {
+    const queued: (() => Promise<unknown>)[] = [];
+    const chain: Record<string, unknown> = {
+      exec: async () => {
+        const results: [null, unknown][] = [];
+        for (const run of queued) results.push([null, await run()]);
+        return results;
+      },
+    };
+    const proxy: any = new Proxy(chain, {
+      get: (target, name: string) =>
+        name in target
+          ? target[name]
+          : (...args: unknown[]) => {
+              queued.push(() => (this as any)[name](...args));
+              return proxy;
+            },
+    });
+    return proxy;
+  }
+
+  async zadd(key: string, score: number, member: string) {
+    const zset = this.zsets.get(key) || new Map<string, number>();
+    const added = zset.has(member) ? 0 : 1;
+    zset.set(member, score);
+    this.zsets.set(key, zset);
+    return added;
+  }
+
+  async zrem(key: string, member: string) {
+    return this.zsets.get(key)?.delete(member) ? 1 : 0;
+  }
+
+  async zremrangebyscore(key: string, min: number, max: number) {
+    const zset = this.zsets.get(key);
+    if (!zset) return 0;
+    let removed = 0;
+    for (const [member, score] of zset) {
+      if (score >= min && score <= max) {
+        zset.delete(member);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async zrevrange(key: string, start: number, stop: number) {
+    const members = [...(this.zsets.get(key) || new Map<string, number>())]
+      .sort((a, b) => b[1] - a[1])
+      .map(([member]) => member);
+    return members.slice(start, stop === -1 ? undefined : stop + 1);
+  }
+
+  asRedis(): Redis {
+    return this as unknown as Redis;
+  }
+}
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import {
+  decodeCursor,
+  encodeCursor,
+  InteractionPage,
+  InteractionSearch,
+} from "../src/services/interactionSearch.js";
+import { Interaction } from "../src/models/interaction.js";
+import { FakeModel } from "./fakeModel.js";
+
+let interactions: FakeModel;
+const search = new InteractionSearch();
+
+const add = (message: string, minute: number, extra = {}) =>
+  interactions.insert({
+    userId: "u1",
+    message,
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, minute)),
+    ...extra,
+  })[0];
+
+// Follows nextCursor through every page
+const pageThrough = async (limit: number, filter = {}) => {
+  const messages: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: InteractionPage = await search.page(filter, {
+      limit,
+      cursor: cursor ? decodeCursor(cursor)! : undefined,
+    });
+    messages.push(...page.items.map((item) => item.message));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return messages;
+};
+
+beforeEach(() => {
+  interactions = new FakeModel();
+  mock.method(Interaction, "find", (filter: any) => interactions.find(filter));
+});
+afterEach(() => mock.restoreAll());
+
+describe("InteractionSearch pages", () => {
+  test("returns every interaction once, newest first", async () => {
+    ["a", "b", "c", "d", "e"].forEach((message, minute) =>
+      add(message, minute)
+    );
+
+    assert.deepEqual(await pageThrough(2), ["e", "d", "c", "b", "a"]);
+  });
+
+  test("pages through interactions that share a timestamp", async () => {
+    ["a", "b", "c", "d"].forEach((message) => add(message, 0));
+    add("e", 1);
+
+    assert.deepEqual(await pageThrough(2), ["e", "d", "c", "b", "a"]);
+  });
+
+  test("interactions added meanwhile don't shift later pages", async () => {
+    ["a", "b", "c"].forEach((message, minute) => add(message, minute));
+
+    const first = await search.page({}, { limit: 2 });
+    add("new", 10);
+    const second = await search.page(
+      {},
+      { limit: 2, cursor: decodeCursor(first.nextCursor!)! }
+    );
+
+    assert.deepEqual(
+      second.items.map((item) => item.message),
+      ["a"]
+    );
+    assert.equal(second.nextCursor, null);
+  });
+
+  test("filters apply across pages", async () => {
+    ["a", "b", "c", "d"].forEach((message, minute) =>
+      add(message, minute, { evolutionScore: minute % 2 ? 0.9 : 0.1 })
+    );
+    add("other", 5, { userId: "u2", evolutionScore: 0.9 });
+
+    assert.deepEqual(await pageThrough(1, { userId: "u1", minScore: 0.5 }), [
+      "d",
+      "b",
+    ]);
+  });
+
+  test("rejects malformed cursors", () => {
+    const valid = encodeCursor({
+      timestamp: new Date(),
+      id: "65a000000000000000000000",
+    });
+
+    assert.ok(decodeCursor(valid));
+    assert.equal(decodeCursor("not-a-cursor"), null);
+    assert.equal(
+      decodeCursor(
+        Buffer.from(JSON.stringify({ t: "never", id: "x" })).toString(
+          "base64url"
+        )
+      ),
+      null
+    );
+  });
+});
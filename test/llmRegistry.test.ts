@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { LlmRegistry, loadLlmConfig } from "../src/llm/registry.js";
+import { ScriptedProvider } from "../src/llm/scriptedProvider.js";
+import { UsageEvent } from "../src/llm/metering.js";
+
+describe("loadLlmConfig", () => {
+  test("defaults to openai", () => {
+    const config = loadLlmConfig({});
+    assert.deepEqual(config.default, { provider: "openai" });
+    assert.deepEqual(config.subsystems, {});
+  });
+
+  test("treats empty values as unset", () => {
+    const config = loadLlmConfig({ LLM_PROVIDER: "local", LLM_BASE_URL: "" });
+    assert.deepEqual(config.default, { provider: "local" });
+  });
+
+  test("overrides inherit the default provider and its settings", () => {
+    const config = loadLlmConfig({
+      LLM_PROVIDER: "local",
+      LLM_MODEL: "llama3",
+      LLM_BASE_URL: "http://localhost:11434/v1",
+      LLM_MEMORY_IMPORTANCE_MODEL: "gpt-4o-mini",
+    });
+
+    assert.deepEqual(config.subsystems.memoryImportance, {
+      provider: "local",
+      model: "gpt-4o-mini",
+      baseURL: "http://localhost:11434/v1",
+    });
+  });
+
+  test("keeps every subsystem scripted when the default is", () => {
+    const config = loadLlmConfig({
+      LLM_PROVIDER: "scripted",
+      LLM_SCRIPT_FILE: "rules.json",
+      LLM_MEMORY_IMPORTANCE_MODEL: "gpt-4o-mini",
+    });
+
+    assert.equal(config.subsystems.memoryImportance?.provider, "scripted");
+    assert.equal(config.subsystems.memoryImportance?.scriptFile, "rules.json");
+  });
+
+  test("overrides naming another provider keep none of the default's settings", () => {
+    const config = loadLlmConfig({
+      LLM_PROVIDER: "local",
+      LLM_BASE_URL: "http://localhost:11434/v1",
+      LLM_API_KEY: "local-key",
+      LLM_EMBEDDING_PROVIDER: "openai",
+      LLM_EMBEDDING_EMBEDDING_MODEL: "text-embedding-3-small",
+    });
+
+    assert.deepEqual(config.subsystems.embedding, {
+      provider: "openai",
+      embeddingModel: "text-embedding-3-small",
+    });
+  });
+
+  test("parses function calling", () => {
+    const config = loadLlmConfig({
+      LLM_FUNCTION_CALLING: "false",
+      LLM_PRIMARY_FUNCTION_CALLING: "true",
+    });
+
+    assert.equal(config.default.functionCalling, false);
+    assert.equal(config.subsystems.primary?.functionCalling, true);
+  });
+});
+
+describe("LlmRegistry", () => {
+  test("resolves subsystems to their configured provider", () => {
+    const registry = new LlmRegistry(
+      loadLlmConfig({
+        LLM_PROVIDER: "scripted",
+        LLM_PRIMARY_PROVIDER: "local",
+        LLM_PRIMARY_BASE_URL: "http://localhost:11434/v1",
+      })
+    );
+
+    assert.equal(registry.for("primary").name, "local");
+    assert.equal(registry.for("memoryImportance").name, "scripted");
+  });
+
+  test("shares one client between subsystems with identical settings", () => {
+    const registry = new LlmRegistry(
+      loadLlmConfig({ LLM_PROVIDER: "scripted" })
+    );
+    assert.equal(registry.for("primary"), registry.for("embedding"));
+  });
+
+  test("uses registered providers over the config", () => {
+    const provider = new ScriptedProvider({ fallback: "registered" });
+    const registry = LlmRegistry.withProvider(provider);
+
+    assert.equal(registry.for("contextSummary"), provider);
+  });
+
+  test("reports calls once metered", async () => {
+    const events: UsageEvent[] = [];
+    const registry = LlmRegistry.withProvider(
+      new ScriptedProvider({ fallback: "four words of text" })
+    );
+    registry.meter({ record: async (event) => void events.push(event) });
+
+    await registry
+      .for("toolSummary")
+      .chat([{ role: "user", content: "summarize" }]);
+
+    assert.equal(events.length, 1);
+    assert.equal(events[0].subsystem, "toolSummary");
+    assert.equal(events[0].provider, "scripted");
+    assert.equal(events[0].estimated, false);
+    assert.ok(events[0].totalTokens > 0);
+  });
+});
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, test } from "node:test";
+import RedisMock from "ioredis-mock";
+import { Redis } from "ioredis";
+import {
+  LongTermMemory,
+  MemorySystem,
+  PinLimitError,
+} from "../src/services/memorySystem.js";
+import { LlmRegistry } from "../src/llm/registry.js";
+import { ScriptedProvider } from "../src/llm/scriptedProvider.js";
+import { InMemoryVectorStore } from "../src/vector/memoryVectorStore.js";
+
+const memory = (content: string, extra = {}): LongTermMemory => ({
+  id: content,
+  type: "fact",
+  content,
+  timestamp: new Date(Date.UTC(2026, 0, 1)),
+  importance: 0.9,
+  lastAccessed: new Date(Date.UTC(2026, 0, 1)),
+  accessCount: 1,
+  ...extra,
+});
+
+let redis: Redis;
+let memories: MemorySystem;
+
+const add = (stored: LongTermMemory) => memories["addToLongTerm"]("u1", stored);
+const ids = async () =>
+  (await memories.listLongTerm("u1", { limit: 100 })).items
+    .map((m) => m.id)
+    .sort();
+
+beforeEach(async () => {
+  redis = new RedisMock() as unknown as Redis;
+  await redis.flushall();
+  memories = new MemorySystem(
+    redis,
+    LlmRegistry.withProvider(new ScriptedProvider()),
+    new InMemoryVectorStore(),
+    async () => 3
+  );
+});
+
+describe("MemorySystem long-term memories", () => {
+  test("concurrent additions and updates all land", async () => {
+    await Promise.all(["a", "b", "c"].map((content) => add(memory(content))));
+    await Promise.all([
+      memories.updateLongTerm("u1", "a", { importance: 0.95 }),
+      memories.updateLongTerm("u1", "b", { pinned: true }),
+      memories["updateMemoryAccess"]("u1", [memory("c")]),
+    ]);
+
+    const [a, b, c] = await memories.getLongTerm("u1", ["a", "b", "c"]);
+    assert.equal(a.importance, 0.95);
+    assert.equal(b.pinned, true);
+    assert.equal(c.accessCount, 2);
+  });
+
+  test("evicts the least important memory that isn't pinned", async () => {
+    await add(memory("low", { importance: 0.81, pinned: true }));
+    await add(memory("mid", { importance: 0.85 }));
+    await add(memory("high", { importance: 0.95 }));
+    await add(memory("new", { importance: 0.9 }));
+
+    assert.deepEqual(await ids(), ["high", "low", "new"]);
+  });
+
+  test("refuses to pin more than the limit", async () => {
+    for (let i = 0; i < 6; i++) {
+      await redis.hset("ltm:u1", `m${i}`, JSON.stringify(memory(`m${i}`)));
+    }
+    for (let i = 0; i < 5; i++) {
+      await memories.updateLongTerm("u1", `m${i}`, { pinned: true });
+    }
+
+    await assert.rejects(
+      memories.updateLongTerm("u1", "m5", { pinned: true }),
+      PinLimitError
+    );
+    // Already pinned ones can still be changed
+    const updated = await memories.updateLongTerm("u1", "m0", {
+      pinned: true,
+      importance: 0.99,
+    });
+    assert.equal(updated?.importance, 0.99);
+  });
+
+  test("moves memories stored as a list into the hash", async () => {
+    const { id: _, ...unnamed } = memory("old");
+    await redis.set("ltm:u1", JSON.stringify([memory("kept"), unnamed]));
+
+    const stored = (await memories.listLongTerm("u1")).items;
+
+    assert.equal(await redis.type("ltm:u1"), "hash");
+    assert.equal(stored.length, 2);
+    assert.ok(stored.every((m) => m.id));
+    assert.equal(await memories.deleteLongTerm("u1", "kept"), true);
+    assert.equal((await memories.listLongTerm("u1")).total, 1);
+  });
+});
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, test } from "node:test";
+import { z } from "zod";
+import {
+  MeteredProvider,
+  UsageEvent,
+  newUsageTotals,
+  withUsageScope,
+} from "../src/llm/metering.js";
+import { ScriptedProvider } from "../src/llm/scriptedProvider.js";
+import { LlmChatOptions, LlmMessage } from "../src/llm/types.js";
+import { usageQuotas } from "../src/services/usageMeter.js";
+
+const ask = (content: string): LlmMessage[] => [{ role: "user", content }];
+const prices = { scripted: { prompt: 1_000_000, completion: 2_000_000 } };
+const schema = z.object({ score: z.number() });
+
+const metered = (provider: ScriptedProvider) => {
+  const events: UsageEvent[] = [];
+  const recorder = {
+    record: async (event: UsageEvent) => void events.push(event),
+  };
+  return {
+    events,
+    provider: new MeteredProvider(provider, "evolutionScore", recorder, prices),
+  };
+};
+
+describe("MeteredProvider", () => {
+  test("records the usage reported by structured calls", async () => {
+    const { provider, events } = metered(
+      new ScriptedProvider({ fallback: '{"score": 0.5}' })
+    );
+
+    assert.deepEqual(await provider.structured(ask("1234"), schema, "score"), {
+      score: 0.5,
+    });
+    assert.equal(events.length, 1);
+    assert.equal(events[0].estimated, false);
+    assert.equal(events[0].promptTokens, 1);
+    assert.equal(events[0].completionTokens, 4);
+    assert.equal(events[0].cost, 9);
+  });
+
+  test("estimates structured usage the provider doesn't report", async () => {
+    const inner = new ScriptedProvider({ fallback: '{"score": 0.5}' });
+    // Drops usage before it reaches the caller
+    const structured = inner.structured.bind(inner);
+    inner.structured = <T>(
+      messages: LlmMessage[],
+      schema: z.ZodType<T>,
+      name: string,
+      options: LlmChatOptions = {}
+    ) => structured(messages, schema, name, { ...options, onUsage: undefined });
+
+    const { provider, events } = metered(inner);
+    await provider.structured(ask("1234"), schema, "score");
+
+    assert.equal(events[0].estimated, true);
+    assert.ok(events[0].totalTokens > 0);
+  });
+
+  test("passes reported usage on to the caller", async () => {
+    const { provider } = metered(
+      new ScriptedProvider({ fallback: '{"score": 1}' })
+    );
+    let seen = 0;
+    await provider.structured(ask("1234"), schema, "score", {
+      onUsage: (usage) => (seen = usage.totalTokens),
+    });
+    assert.equal(seen, 4);
+  });
+
+  test("adds calls to the totals of the current scope", async () => {
+    const { provider, events } = metered(
+      new ScriptedProvider({ fallback: "12345678" })
+    );
+    const totals = newUsageTotals();
+
+    await withUsageScope({ userId: "u1", interactionId: "i1", totals }, () =>
+      provider.chat(ask("1234"))
+    );
+
+    assert.equal(events[0].userId, "u1");
+    assert.equal(events[0].interactionId, "i1");
+    assert.equal(totals.totalTokens, 3);
+    assert.equal(totals.cost, 5);
+    assert.deepEqual(totals.models, { evolutionScore: "scripted" });
+  });
+});
+
+describe("usageQuotas", () => {
+  afterEach(() => {
+    delete process.env.USAGE_DAILY_TOKENS_BASIC;
+    delete process.env.USAGE_DAILY_TOKENS_PREMIUM;
+  });
+
+  test("uses the tier defaults", () => {
+    assert.deepEqual(usageQuotas(), {
+      basic: 200_000,
+      premium: 1_000_000,
+      enterprise: 0,
+    });
+  });
+
+  test("reads overrides, with 0 meaning unlimited", () => {
+    process.env.USAGE_DAILY_TOKENS_BASIC = "5000";
+    process.env.USAGE_DAILY_TOKENS_PREMIUM = "0";
+    assert.equal(usageQuotas().basic, 5000);
+    assert.equal(usageQuotas().premium, 0);
+  });
+
+  test("falls back to the default for malformed values", () => {
+    for (const value of ["lots", "-5", "1e6", "10k"]) {
+      process.env.USAGE_DAILY_TOKENS_BASIC = value;
+      assert.equal(usageQuotas().basic, 200_000, value);
+    }
+  });
+});
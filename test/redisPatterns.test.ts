@@ -0,0 +1,14 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { escapeGlob } from "../src/services/redisPatterns.js";
+
+test("escapes glob characters", () => {
+  assert.equal(escapeGlob("a*b?c[d]e\\f"), "a\\*b\\?c\\[d\\]e\\\\f");
+});
+
+test("leaves other characters alone", () => {
+  assert.equal(
+    escapeGlob("api:7NwukWynkZap56CRwPjxde2HY7z4nFNzzVYTQ96Lpump"),
+    "api:7NwukWynkZap56CRwPjxde2HY7z4nFNzzVYTQ96Lpump"
+  );
+});
@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, test } from "node:test";
+import { z } from "zod";
+import { ScriptedProvider } from "../src/llm/scriptedProvider.js";
+import { LlmMessage } from "../src/llm/types.js";
+
+const ask = (content: string): LlmMessage[] => [{ role: "user", content }];
+
+const tool = {
+  name: "analyzeToken",
+  description: "Analyze a token",
+  parameters: { type: "object" },
+};
+
+describe("ScriptedProvider", () => {
+  test("answers with the first matching rule", async () => {
+    const provider = new ScriptedProvider({
+      rules: [
+        { match: "price", response: "It is up." },
+        { match: /hel+o/, response: "Hi!" },
+        { response: "Catch-all" },
+      ],
+    });
+
+    assert.equal((await provider.chat(ask("hello"))).content, "Hi!");
+    assert.equal((await provider.chat(ask("the price?"))).content, "It is up.");
+    assert.equal((await provider.chat(ask("other"))).content, "Catch-all");
+  });
+
+  test("falls back when nothing matches", async () => {
+    const provider = new ScriptedProvider({ fallback: "No idea" });
+    assert.equal((await provider.chat(ask("anything"))).content, "No idea");
+  });
+
+  test("drops rules after their uses run out", async () => {
+    const provider = new ScriptedProvider({
+      rules: [{ response: "once", times: 1 }],
+      fallback: "again",
+    });
+
+    assert.equal((await provider.chat(ask("a"))).content, "once");
+    assert.equal((await provider.chat(ask("b"))).content, "again");
+  });
+
+  test("builds responses from the messages", async () => {
+    const provider = new ScriptedProvider({
+      rules: [
+        { response: (messages) => messages.at(-1)!.content.toUpperCase() },
+      ],
+    });
+    assert.equal((await provider.chat(ask("echo"))).content, "ECHO");
+  });
+
+  test("requests tools only when they are offered", async () => {
+    const provider = new ScriptedProvider({
+      rules: [
+        {
+          match: "token",
+          response: "",
+          toolCalls: [{ name: "analyzeToken", arguments: "{}" }],
+        },
+      ],
+      fallback: "no tools",
+    });
+
+    const withoutTools = await provider.chat(ask("token"));
+    assert.equal(withoutTools.content, "no tools");
+    assert.equal(withoutTools.toolCalls, undefined);
+
+    const withTools = await provider.chat(ask("token"), { tools: [tool] });
+    assert.deepEqual(withTools.toolCalls, [
+      { id: "call_1", name: "analyzeToken", arguments: "{}" },
+    ]);
+  });
+
+  test("reports usage and records every call", async () => {
+    const provider = new ScriptedProvider({ fallback: "12345678" });
+    const result = await provider.chat(ask("1234"));
+
+    assert.deepEqual(result.usage, {
+      promptTokens: 1,
+      completionTokens: 2,
+      totalTokens: 3,
+    });
+    assert.deepEqual(provider.calls, [ask("1234")]);
+  });
+
+  test("streams the answer with usage on the final chunk", async () => {
+    const provider = new ScriptedProvider({ fallback: "one two three" });
+    const chunks = [];
+    for await (const chunk of provider.stream(ask("count"))) {
+      chunks.push(chunk);
+    }
+
+    assert.equal(chunks.map((c) => c.content).join(""), "one two three");
+    assert.ok(chunks.length > 2);
+    assert.ok(chunks.at(-1)!.usage);
+    assert.ok(chunks.slice(0, -1).every((c) => !c.usage));
+  });
+
+  test("parses structured answers with the schema", async () => {
+    const provider = new ScriptedProvider({ fallback: '{"score": 0.5}' });
+    const schema = z.object({ score: z.number() });
+
+    assert.deepEqual(await provider.structured(ask("score"), schema, "score"), {
+      score: 0.5,
+    });
+    await assert.rejects(
+      new ScriptedProvider({ fallback: '{"score": "high"}' }).structured(
+        ask("score"),
+        schema,
+        "score"
+      )
+    );
+  });
+
+  test("embeds deterministically with unit vectors", async () => {
+    const provider = new ScriptedProvider({ embeddingDimensions: 16 });
+    const [a, b, c] = await provider.embed([
+      "solana token",
+      "solana token",
+      "weather",
+    ]);
+
+    assert.equal(a.length, 16);
+    assert.deepEqual(a, b);
+    assert.notDeepEqual(a, c);
+    const norm = Math.sqrt(a.reduce((sum, v) => sum + v * v, 0));
+    assert.ok(Math.abs(norm - 1) < 1e-9);
+  });
+
+  test("loads rules from a file", async () => {
+    const file = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "scripted-")),
+      "rules.json"
+    );
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        rules: [{ match: "^gm", response: "gm!" }],
+        fallback: "?",
+      })
+    );
+
+    const provider = ScriptedProvider.fromFile(file);
+    assert.equal((await provider.chat(ask("gm fren"))).content, "gm!");
+    assert.equal((await provider.chat(ask("say gm"))).content, "?");
+  });
+});
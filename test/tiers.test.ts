@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, test } from "node:test";
+import {
+  higherTier,
+  holdingThresholds,
+  tierForBalance,
+  tierOrDefault,
+} from "../src/services/tiers.js";
+
+describe("tierForBalance", () => {
+  afterEach(() => {
+    delete process.env.TOKEN_TIER_PREMIUM_MIN;
+    delete process.env.TOKEN_TIER_ENTERPRISE_MIN;
+  });
+
+  test("maps balances to the highest threshold they reach", () => {
+    assert.equal(tierForBalance(0), "basic");
+    assert.equal(tierForBalance(99_999.99), "basic");
+    assert.equal(tierForBalance(100_000), "premium");
+    assert.equal(tierForBalance(999_999), "premium");
+    assert.equal(tierForBalance(1_000_000), "enterprise");
+    assert.equal(tierForBalance(50_000_000), "enterprise");
+  });
+
+  test("uses configured thresholds", () => {
+    process.env.TOKEN_TIER_PREMIUM_MIN = "10";
+    process.env.TOKEN_TIER_ENTERPRISE_MIN = "20.5";
+
+    assert.deepEqual(holdingThresholds(), {
+      basic: 0,
+      premium: 10,
+      enterprise: 20.5,
+    });
+    assert.equal(tierForBalance(9), "basic");
+    assert.equal(tierForBalance(10), "premium");
+    assert.equal(tierForBalance(20.5), "enterprise");
+  });
+
+  test("ignores malformed thresholds", () => {
+    process.env.TOKEN_TIER_PREMIUM_MIN = "lots";
+    assert.equal(holdingThresholds().premium, 100_000);
+  });
+});
+
+describe("tier helpers", () => {
+  test("higherTier picks the higher of two tiers", () => {
+    assert.equal(higherTier("basic", "premium"), "premium");
+    assert.equal(higherTier("enterprise", "premium"), "enterprise");
+    assert.equal(higherTier("basic", "basic"), "basic");
+  });
+
+  test("tierOrDefault falls back to basic", () => {
+    assert.equal(tierOrDefault("premium"), "premium");
+    assert.equal(tierOrDefault("gold"), "basic");
+    assert.equal(tierOrDefault(undefined), "basic");
+  });
+});
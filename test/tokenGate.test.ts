@@ -0,0 +1,280 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  after,
+  afterEach,
+  before,
+  beforeEach,
+  describe,
+  mock,
+  test,
+} from "node:test";
+import {
+  HoldingsSource,
+  RpcHoldingsSource,
+  StaticHoldingsSource,
+  TokenGate,
+} from "../src/services/tokenGate.js";
+import { TierStore } from "../src/services/tiers.js";
+import { FakeRedis } from "./fakeRedis.js";
+
+const MINT = "7NwukWynkZap56CRwPjxde2HY7z4nFNzzVYTQ96Lpump";
+const ALICE = "So11111111111111111111111111111111111111112";
+const BOB = "Vote111111111111111111111111111111111111111";
+
+const MINUTE = 60 * 1000;
+
+// Balances that can change between reads, and a switch to make reads fail
+class ScriptedHoldings implements HoldingsSource {
+  balances: Record<string, number> = {};
+  failing = false;
+  reads = 0;
+
+  async balanceOf(wallet: string): Promise<number> {
+    this.reads++;
+    if (this.failing) throw new Error("RPC unavailable");
+    return this.balances[wallet] || 0;
+  }
+}
+
+let now: number;
+beforeEach(() => {
+  now = Date.UTC(2026, 0, 1);
+  mock.method(Date, "now", () => now);
+});
+afterEach(() => mock.restoreAll());
+
+describe("TokenGate", () => {
+  test("only wallets hold tokens", async () => {
+    const gate = new TokenGate(
+      new FakeRedis().asRedis(),
+      new StaticHoldingsSource({ [ALICE]: 5 })
+    );
+
+    assert.equal(gate.isWallet(ALICE), true);
+    assert.equal(gate.isWallet("apikey:123"), false);
+    assert.equal(await gate.holding("apikey:123"), null);
+    await gate.holding(ALICE);
+    await gate.refreshTracked();
+    assert.equal((await gate.holding(ALICE))?.balance, 5);
+  });
+
+  test("requests answer from the cache without reading balances", async () => {
+    const source = new ScriptedHoldings();
+    source.balances[ALICE] = 100;
+    const gate = new TokenGate(new FakeRedis().asRedis(), source);
+
+    assert.equal(await gate.holding(ALICE), null);
+    assert.equal(source.reads, 0);
+
+    await gate.refreshTracked();
+    source.balances[ALICE] = 200;
+
+    now += 10 * MINUTE;
+    assert.equal((await gate.holding(ALICE))?.balance, 100);
+    assert.equal(source.reads, 1);
+
+    await gate.refreshTracked();
+    assert.equal((await gate.holding(ALICE))?.balance, 200);
+    assert.equal(source.reads, 2);
+  });
+
+  test("keeps the last balance when a read fails and retries after a minute", async () => {
+    const source = new ScriptedHoldings();
+    source.balances[ALICE] = 100;
+    const gate = new TokenGate(new FakeRedis().asRedis(), source);
+    mock.method(console, "error", () => {});
+
+    await gate.holding(ALICE);
+    await gate.refreshTracked();
+    source.failing = true;
+
+    now += 10 * MINUTE;
+    assert.deepEqual(await gate.refreshTracked(), []);
+    const stale = await gate.holding(ALICE);
+    assert.equal(stale?.balance, 100);
+    assert.equal(stale?.checkedAt.getTime(), now - 10 * MINUTE);
+
+    now += 30 * 1000;
+    await gate.refreshTracked();
+    assert.equal(source.reads, 2);
+
+    source.failing = false;
+    source.balances[ALICE] = 300;
+    now += 30 * 1000;
+    await gate.refreshTracked();
+    assert.equal((await gate.holding(ALICE))?.balance, 300);
+    assert.equal(source.reads, 3);
+  });
+
+  test("refreshTracked reports the balances that changed", async () => {
+    const source = new ScriptedHoldings();
+    source.balances = { [ALICE]: 100, [BOB]: 50 };
+    const gate = new TokenGate(new FakeRedis().asRedis(), source);
+
+    await gate.holding(ALICE);
+    await gate.holding(BOB);
+    assert.deepEqual(
+      (await gate.refreshTracked()).sort((a, b) => a.balance - b.balance),
+      [
+        { wallet: BOB, previous: null, balance: 50 },
+        { wallet: ALICE, previous: null, balance: 100 },
+      ]
+    );
+    source.balances[ALICE] = 150;
+
+    // Still fresh: nothing is read
+    assert.deepEqual(await gate.refreshTracked(), []);
+
+    now += 10 * MINUTE;
+    assert.deepEqual(await gate.refreshTracked(), [
+      { wallet: ALICE, previous: 100, balance: 150 },
+    ]);
+  });
+
+  test("stops tracking wallets not seen for a week", async () => {
+    const source = new ScriptedHoldings();
+    const gate = new TokenGate(new FakeRedis().asRedis(), source);
+
+    await gate.holding(ALICE);
+    now += 8 * 24 * 60 * MINUTE;
+    source.balances[ALICE] = 1;
+
+    assert.deepEqual(await gate.refreshTracked(), []);
+  });
+
+  test("eraseUser forgets the wallet", async () => {
+    const redis = new FakeRedis();
+    const gate = new TokenGate(
+      redis.asRedis(),
+      new StaticHoldingsSource({ [ALICE]: 5 })
+    );
+
+    await gate.holding(ALICE);
+    await gate.refreshTracked();
+    assert.equal(await gate.eraseUser(ALICE), 1);
+    assert.equal(redis.strings.size, 0);
+    assert.deepEqual(await gate.refreshTracked(), []);
+  });
+});
+
+describe("TierStore holdings", () => {
+  test("refreshHoldings returns users whose tier changed", async () => {
+    const redis = new FakeRedis();
+    // Cached assignments keep the lookups away from MongoDB
+    await redis.set(`auth:tier:${ALICE}`, "basic");
+    await redis.set(`auth:tier:${BOB}`, "basic");
+
+    const source = new ScriptedHoldings();
+    source.balances = { [ALICE]: 50_000, [BOB]: 200_000 };
+    const tiers = new TierStore(
+      redis.asRedis(),
+      new TokenGate(redis.asRedis(), source)
+    );
+
+    assert.equal(await tiers.tierOf(ALICE), "basic");
+    assert.equal(await tiers.tierOf(BOB), "basic");
+    assert.deepEqual(await tiers.refreshHoldings(), [
+      { userId: BOB, tier: "premium" },
+    ]);
+
+    // Alice crosses a threshold, Bob gains without changing tier
+    source.balances = { [ALICE]: 1_500_000, [BOB]: 300_000 };
+    now += 10 * MINUTE;
+
+    assert.deepEqual(await tiers.refreshHoldings(), [
+      { userId: ALICE, tier: "enterprise" },
+    ]);
+  });
+
+  test("the assigned tier wins when it is higher", async () => {
+    const redis = new FakeRedis();
+    await redis.set(`auth:tier:${ALICE}`, "premium");
+    const tiers = new TierStore(
+      redis.asRedis(),
+      new TokenGate(redis.asRedis(), new StaticHoldingsSource())
+    );
+
+    await tiers.status(ALICE);
+    await tiers.refreshHoldings();
+    const status = await tiers.status(ALICE);
+    assert.equal(status.tier, "premium");
+    assert.equal(status.holding?.tier, "basic");
+  });
+});
+
+// JSON-RPC server standing in for a Solana node
+describe("RpcHoldingsSource against a mocked RPC", () => {
+  let server: http.Server;
+  let url: string;
+  const requests: any[] = [];
+  const accounts: Record<string, (number | null)[]> = {
+    [ALICE]: [1_000.5, 250, null],
+  };
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const request = JSON.parse(body);
+        requests.push(request);
+        const [owner] = request.params;
+
+        res.setHeader("Content-Type", "application/json");
+        res.end(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: request.id,
+            result: {
+              context: { slot: 1 },
+              value: (accounts[owner] || []).map((uiAmount, index) => ({
+                pubkey: BOB,
+                account: {
+                  data: {
+                    program: "spl-token",
+                    parsed: {
+                      type: "account",
+                      info: {
+                        mint: MINT,
+                        owner,
+                        tokenAmount: {
+                          amount: String(index),
+                          decimals: 6,
+                          uiAmount,
+                          uiAmountString: String(uiAmount ?? 0),
+                        },
+                      },
+                    },
+                    space: 165,
+                  },
+                  executable: false,
+                  lamports: 2039280,
+                  owner: "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+                  rentEpoch: 0,
+                  space: 165,
+                },
+              })),
+            },
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  test("sums the owner's accounts of the mint", async () => {
+    const source = new RpcHoldingsSource(url);
+
+    assert.equal(await source.balanceOf(ALICE, MINT), 1_250.5);
+    assert.equal(await source.balanceOf(BOB, MINT), 0);
+
+    const request = requests.at(-1);
+    assert.equal(request.method, "getTokenAccountsByOwner");
+    assert.deepEqual(request.params[1], { mint: MINT });
+  });
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { PublicKey } from "@solana/web3.js";
+import nacl from "tweetnacl";
+import { WalletAuth } from "../src/services/walletAuth.js";
+import { FakeRedis } from "./fakeRedis.js";
+
+const wallet = nacl.sign.keyPair();
+const publicKey = new PublicKey(wallet.publicKey).toBase58();
+
+const sign = (message: string, secretKey = wallet.secretKey) =>
+  Buffer.from(
+    nacl.sign.detached(new TextEncoder().encode(message), secretKey)
+  ).toString("base64");
+
+let auth: WalletAuth;
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ["Date"], now: Date.UTC(2026, 0, 1) });
+  auth = new WalletAuth(new FakeRedis().asRedis());
+});
+afterEach(() => {
+  mock.timers.reset();
+  mock.restoreAll();
+});
+
+describe("WalletAuth", () => {
+  test("accepts a signed challenge once", async () => {
+    const { message } = await auth.createChallenge(publicKey);
+
+    assert.equal(await auth.verify(publicKey, message, sign(message)), true);
+    assert.equal(await auth.verify(publicKey, message, sign(message)), false);
+  });
+
+  test("a failed attempt uses up the nonce", async () => {
+    const { message } = await auth.createChallenge(publicKey);
+    const other = nacl.sign.keyPair();
+    mock.method(console, "error", () => {});
+
+    assert.equal(
+      await auth.verify(publicKey, message, sign(message, other.secretKey)),
+      false
+    );
+    assert.equal(await auth.verify(publicKey, message, sign(message)), false);
+  });
+
+  test("rejects a message altered or issued to another wallet", async () => {
+    const { message } = await auth.createChallenge(publicKey);
+    const altered = message.replace("Sign in", "Log in");
+    assert.equal(await auth.verify(publicKey, altered, sign(altered)), false);
+
+    const other = new PublicKey(nacl.sign.keyPair().publicKey).toBase58();
+    const issued = (await auth.createChallenge(other)).message;
+    assert.equal(await auth.verify(publicKey, issued, sign(issued)), false);
+  });
+
+  test("rejects an expired challenge", async () => {
+    const { message, expiresAt } = await auth.createChallenge(publicKey);
+
+    mock.timers.setTime(expiresAt.getTime());
+    assert.equal(await auth.verify(publicKey, message, sign(message)), false);
+  });
+});